@@ -0,0 +1,186 @@
+// 分数走势图和对比卡片渲染：先拼接 SVG，再用 resvg 本地转换为 PNG，无需浏览器或网络
+
+// 图表数据点
+export interface ChartPoint {
+  timestamp: number
+  score: number
+}
+
+// 对比卡片的一行，leader 为数值更好的一方（0 或 1），相同或无法比较时不设置
+export interface CompareRow {
+  label: string
+  values: [string, string]
+  leader?: 0 | 1
+}
+
+// 走势图中的文字，由调用方按群的语言从语言包生成
+export interface RankChartText {
+  title: string
+  // 分数变化，例如 5000 → 5100 (+100 RP)
+  change: string
+  // 段位的显示名称，键为 rankTierNames 中的英文名
+  tiers: Record<string, string>
+}
+
+// 对比卡片中的文字
+export interface CompareCardText {
+  vs: string
+}
+
+// 段位分数区间（左闭右开），用于绘制背景色带
+const rankTiers = [
+  { name: 'Rookie', min: 0, color: '#8d6e63' },
+  { name: 'Bronze', min: 1000, color: '#b87333' },
+  { name: 'Silver', min: 3000, color: '#9e9e9e' },
+  { name: 'Gold', min: 5400, color: '#fbc02d' },
+  { name: 'Platinum', min: 8200, color: '#4dd0e1' },
+  { name: 'Diamond', min: 11400, color: '#42a5f5' },
+  { name: 'Master', min: 15000, color: '#ab47bc' }
+]
+
+export const rankTierNames = rankTiers.map(tier => tier.name)
+
+const width = 800
+const height = 420
+const margin = { top: 50, right: 90, bottom: 50, left: 70 }
+
+// 转义 SVG 文本中的特殊字符
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, char => ({
+    '<': '&lt;',
+    '>': '&gt;',
+    '&': '&amp;',
+    '\'': '&apos;',
+    '"': '&quot;'
+  })[char])
+}
+
+// 格式化横轴时间标签，例如 01/02 08:30
+function formatAxisTime(timestamp: number): string {
+  const date = new Date(timestamp)
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${pad(date.getMonth() + 1)}/${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+// 生成分数走势图的 SVG 文本
+export function renderRankChartSvg(text: RankChartText, points: ChartPoint[]): string {
+  const plotWidth = width - margin.left - margin.right
+  const plotHeight = height - margin.top - margin.bottom
+
+  const scores = points.map(point => point.score)
+  const padding = Math.max(100, (Math.max(...scores) - Math.min(...scores)) * 0.1)
+  const minScore = Math.max(0, Math.floor((Math.min(...scores) - padding) / 100) * 100)
+  const maxScore = Math.ceil((Math.max(...scores) + padding) / 100) * 100
+
+  const minTime = points[0].timestamp
+  const maxTime = Math.max(points[points.length - 1].timestamp, minTime + 1)
+
+  const x = (timestamp: number) => margin.left + (timestamp - minTime) / (maxTime - minTime) * plotWidth
+  const y = (score: number) => margin.top + (maxScore - score) / (maxScore - minScore) * plotHeight
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+  svg += `<rect width="${width}" height="${height}" fill="#1e1e24"/>`
+
+  // 段位色带
+  rankTiers.forEach((tier, index) => {
+    const tierMax = index + 1 < rankTiers.length ? rankTiers[index + 1].min : Infinity
+    const bandMin = Math.max(tier.min, minScore)
+    const bandMax = Math.min(tierMax, maxScore)
+    if (bandMin >= bandMax) return
+
+    svg += `<rect x="${margin.left}" y="${y(bandMax)}" width="${plotWidth}" height="${y(bandMin) - y(bandMax)}" fill="${tier.color}" fill-opacity="0.15"/>`
+    svg += `<text x="${width - margin.right + 8}" y="${(y(bandMin) + y(bandMax)) / 2 + 4}" font-size="13" fill="${tier.color}">${escapeXml(text.tiers[tier.name] || tier.name)}</text>`
+
+    if (tier.min > minScore) {
+      svg += `<line x1="${margin.left}" y1="${y(tier.min)}" x2="${width - margin.right}" y2="${y(tier.min)}" stroke="${tier.color}" stroke-dasharray="4 4" stroke-opacity="0.6"/>`
+    }
+  })
+
+  // 纵轴刻度
+  for (let i = 0; i <= 5; i++) {
+    const score = Math.round(minScore + (maxScore - minScore) * i / 5)
+    svg += `<text x="${margin.left - 8}" y="${y(score) + 4}" font-size="12" fill="#cccccc" text-anchor="end">${score}</text>`
+  }
+
+  // 横轴刻度
+  const tickCount = Math.min(5, points.length)
+  for (let i = 0; i < tickCount; i++) {
+    const timestamp = tickCount === 1 ? minTime : minTime + (maxTime - minTime) * i / (tickCount - 1)
+    svg += `<text x="${x(timestamp)}" y="${height - margin.bottom + 20}" font-size="12" fill="#cccccc" text-anchor="middle">${formatAxisTime(timestamp)}</text>`
+  }
+
+  svg += `<rect x="${margin.left}" y="${margin.top}" width="${plotWidth}" height="${plotHeight}" fill="none" stroke="#555555"/>`
+
+  // 分数折线
+  const path = points.map(point => `${x(point.timestamp).toFixed(1)},${y(point.score).toFixed(1)}`).join(' ')
+  svg += `<polyline points="${path}" fill="none" stroke="#ff5252" stroke-width="2.5" stroke-linejoin="round"/>`
+  for (const point of points) {
+    svg += `<circle cx="${x(point.timestamp).toFixed(1)}" cy="${y(point.score).toFixed(1)}" r="3" fill="#ff5252"/>`
+  }
+
+  const first = points[0].score
+  const last = points[points.length - 1].score
+  const diff = last - first
+  svg += `<text x="${margin.left}" y="30" font-size="18" font-weight="bold" fill="#ffffff">${escapeXml(text.title)}</text>`
+  svg += `<text x="${width - margin.right}" y="30" font-size="15" fill="${diff >= 0 ? '#69f0ae' : '#ff8a80'}" text-anchor="end">${escapeXml(text.change)}</text>`
+
+  svg += `</svg>`
+  return svg
+}
+
+// 生成两名玩家对比卡片的 SVG 文本：左侧为项目名称，右侧两列为两名玩家的数值
+export function renderCompareCardSvg(names: [string, string], rows: CompareRow[], text: CompareCardText): string {
+  const rowHeight = 44
+  const headerHeight = 80
+  const cardHeight = headerHeight + rows.length * rowHeight + 20
+  const labelX = 40
+  const columnX = [370, 630]
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${cardHeight}" viewBox="0 0 ${width} ${cardHeight}">`
+  svg += `<rect width="${width}" height="${cardHeight}" fill="#1e1e24"/>`
+
+  // 玩家名称，中间为 VS
+  svg += `<text x="${columnX[0]}" y="50" font-size="22" font-weight="bold" fill="#ff8a80" text-anchor="middle">${escapeXml(names[0])}</text>`
+  svg += `<text x="${(columnX[0] + columnX[1]) / 2}" y="50" font-size="16" fill="#888888" text-anchor="middle">${escapeXml(text.vs)}</text>`
+  svg += `<text x="${columnX[1]}" y="50" font-size="22" font-weight="bold" fill="#82b1ff" text-anchor="middle">${escapeXml(names[1])}</text>`
+
+  rows.forEach((row, index) => {
+    const top = headerHeight + index * rowHeight
+    const baseline = top + rowHeight / 2 + 6
+
+    if (index % 2 === 0) {
+      svg += `<rect x="20" y="${top}" width="${width - 40}" height="${rowHeight}" fill="#ffffff" fill-opacity="0.04"/>`
+    }
+    svg += `<text x="${labelX}" y="${baseline}" font-size="16" fill="#aaaaaa">${escapeXml(row.label)}</text>`
+
+    row.values.forEach((value, column) => {
+      const leading = row.leader === column
+      svg += `<text x="${columnX[column]}" y="${baseline}" font-size="17" fill="${leading ? '#69f0ae' : '#eeeeee'}" font-weight="${leading ? 'bold' : 'normal'}" text-anchor="middle">${escapeXml(value)}</text>`
+    })
+  })
+
+  svg += `</svg>`
+  return svg
+}
+
+// 把 SVG 渲染为 PNG
+async function renderPng(svg: string): Promise<Buffer> {
+  const { Resvg } = await import('@resvg/resvg-js')
+  const resvg = new Resvg(svg, {
+    font: {
+      loadSystemFonts: true,
+      defaultFontFamily: 'sans-serif'
+    }
+  })
+  return resvg.render().asPng()
+}
+
+// 渲染分数走势图为 PNG
+export async function renderRankChart(text: RankChartText, points: ChartPoint[]): Promise<Buffer> {
+  return renderPng(renderRankChartSvg(text, points))
+}
+
+// 渲染对比卡片为 PNG
+export async function renderCompareCard(names: [string, string], rows: CompareRow[], text: CompareCardText): Promise<Buffer> {
+  return renderPng(renderCompareCardSvg(names, rows, text))
+}
@@ -0,0 +1,100 @@
+// API 错误分类：根据 HTTP 状态码和 API 返回的 Error 信息区分错误原因，
+// 命令可以据此给出不同的提示，轮询可以据此决定是否暂停监控
+// 面向用户的提示由语言包的 error.<code> 提供，message 只保留 API 返回的原始信息，用于日志
+
+// 已分类错误的代码，与语言包 error 下的键相同
+export type ApiErrorCode = 'player-not-found' | 'invalid-api-key' | 'rate-limited' | 'upstream-unavailable' | 'timeout'
+
+// 所有 API 错误的基类，status 为 HTTP 状态码（API 以 200 返回错误信息时也为 200）
+// 未分类的错误没有 code，提示中直接显示 message
+export class ApiError extends Error {
+  readonly code?: ApiErrorCode
+
+  constructor(message = '', public status?: number) {
+    super(message)
+    this.name = new.target.name
+  }
+}
+
+// 玩家不存在，或名称与平台不匹配
+export class PlayerNotFoundError extends ApiError {
+  readonly code = 'player-not-found'
+}
+
+// API 密钥无效、过期或没有权限
+export class InvalidApiKeyError extends ApiError {
+  readonly code = 'invalid-api-key'
+}
+
+// 请求过于频繁
+export class RateLimitedError extends ApiError {
+  readonly code = 'rate-limited'
+}
+
+// API 服务器或其上游服务暂时不可用
+export class UpstreamUnavailableError extends ApiError {
+  readonly code = 'upstream-unavailable'
+}
+
+// 请求超时
+export class TimeoutError extends ApiError {
+  readonly code = 'timeout'
+}
+
+// 按 API 返回的 Error 信息分类，无法识别时返回 null
+export function classifyErrorMessage(message: string, status?: number): ApiError | null {
+  // 密钥错误的信息也可能包含 not found（例如 Auth key not found），需要先判断
+  if (/api key|auth key|unauthori[sz]ed/i.test(message)) {
+    return new InvalidApiKeyError(message, status)
+  }
+  if (/not found|doesn't exist|does not exist|never played|unknown player/i.test(message)) {
+    return new PlayerNotFoundError(message, status)
+  }
+  if (/rate limit|too many requests|slow down/i.test(message)) {
+    return new RateLimitedError(message, status)
+  }
+  if (/unavailable|maintenance|internal error|try again later/i.test(message)) {
+    return new UpstreamUnavailableError(message, status)
+  }
+  return null
+}
+
+// 把请求抛出的任意错误（通常是 axios 错误）转换为 ApiError
+export function toApiError(error: any): ApiError {
+  if (error instanceof ApiError) return error
+
+  if (error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT') {
+    return new TimeoutError(undefined, error.response?.status)
+  }
+
+  const status: number = error?.response?.status
+  if (!status) {
+    // 没有收到响应：连接被拒绝、DNS 解析失败等
+    if (error?.isAxiosError || error?.code) {
+      return new UpstreamUnavailableError(String(error.code || error.message))
+    }
+    return new ApiError(error?.message)
+  }
+
+  const body = error.response.data
+  const message = typeof body?.Error === 'string' ? body.Error : typeof body === 'string' && body.length < 200 ? body : ''
+  const classified = message && classifyErrorMessage(message, status)
+  if (classified) return classified
+
+  if (status === 401 || status === 403) return new InvalidApiKeyError(message, status)
+  if (status === 404) return new PlayerNotFoundError(message, status)
+  if (status === 429) return new RateLimitedError(message, status)
+  if (status >= 500) return new UpstreamUnavailableError(message || `HTTP ${status}`, status)
+  return new ApiError(message || `HTTP ${status}`, status)
+}
+
+// 隐藏文本中的敏感信息：指定的密钥、URL 中的 auth 参数以及地址中的账号密码
+export function redactSecrets(text: string, secrets: string[]): string {
+  let result = text
+    .replace(/([?&]auth=)[^&\s"']+/gi, '$1***')
+    .replace(/(\/\/)[^/@\s:]+:[^/@\s]+@/g, '$1***@')
+  for (const secret of secrets) {
+    if (secret) result = result.split(secret).join('***')
+  }
+  return result
+}
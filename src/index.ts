@@ -1,8 +1,17 @@
-import { Context, Schema } from 'koishi'
+import { Context, Schema, Session, h } from 'koishi'
 import axios from 'axios'
 import * as fs from 'fs'
 import * as path from 'path'
 import * as https from 'https'
+import * as tls from 'tls'
+import { HttpsProxyAgent } from 'https-proxy-agent'
+import { SocksProxyAgent } from 'socks-proxy-agent'
+import { ChartPoint, CompareRow, rankTierNames, renderCompareCard, renderRankChart } from './chart'
+import { readJsonFile, writeJsonFile } from './storage'
+import { StatsProvider, createBridgeProvider, createMockProvider } from './providers'
+import { ApiError, PlayerNotFoundError, classifyErrorMessage, redactSecrets, toApiError } from './errors'
+import zhCN from './locales/zh-CN'
+import enUS from './locales/en-US'
 
 // 插件名称
 export const name = 'apexrankwatch'
@@ -10,34 +19,196 @@ export const name = 'apexrankwatch'
 // 配置接口定义
 export interface Config {
   apiKey: string
+  provider: 'bridge' | 'mock'
+  apiBaseUrl: string
+  mockFile: string
+  proxy: string
+  caFile: string
+  skipTlsVerify: boolean
   checkInterval: number
   dataDir: string
   maxRetries: number
   timeout: number
   minValidScore: number
+  anomalyMaxChange: number
+  anomalyConfirmPolls: number
+  notFoundPauseThreshold: number
   blacklist: string  // 黑名单属性
+  defaultPlatform: Platform
+  historyRetentionDays: number
+  weeklyBoard: boolean
+  weeklyBoardDay: number
+  weeklyBoardHour: number
+  defaultBatchMinutes: number
+  digestTime: string
+  watchAuthority: number
+  removeAuthority: number
+  removeOthersAuthority: number
+  settingsAuthority: number
+  adminUsers: string[]
+  adminAuthority: number
+  maxPlayersPerGroup: number
+  maxPlayersTotal: number
+  cacheTTL: number
+  persistCache: boolean
+  rateLimit: number
+  adaptivePolling: boolean
+  offlineCheckInterval: number
+  sessionIdleMinutes: number
+  backupCount: number
+  mapAnnouncement: boolean
+  predatorAlertDistance: number
+  customNames: NameOverride[]
 }
 
-// 配置模式定义
-export const Config = Schema.object({
-  apiKey: Schema.string().required().description('Your API Key from https://portal.apexlegendsapi.com/'),
-  checkInterval: Schema.number().default(2).description('轮询时间间隔（分钟）'),
-  dataDir: Schema.string().default('./data/apexrankwatch').description('数据存储目录'),
-  maxRetries: Schema.number().default(3).description('API请求最大重试次数'),
-  timeout: Schema.number().default(10000).description('API请求超时时间（毫秒）'),
-  minValidScore: Schema.number().default(1).description('最小有效分数（低于此值的分数将被视为无效）'),
-  blacklist: Schema.string().default('').description('黑名单ID列表，多个ID用逗号分隔，例如：player1,player2')
-})
+// 自定义名称翻译，键为语言
+export interface NameOverride {
+  name: string
+  'zh-CN'?: string
+  'en-US'?: string
+}
+
+// 平台类型（与 API 的 platform 参数保持一致）
+export type Platform = 'PC' | 'PS4' | 'X1' | 'SWITCH'
+
+// 配置模式定义，使用模拟数据源时不需要 API 密钥
+export const Config = Schema.intersect([
+  Schema.object({
+    provider: Schema.union([
+      Schema.const('bridge').description('Apex Legends Status API'),
+      Schema.const('mock').description('本地模拟数据（离线测试用）')
+    ]).default('bridge').description('玩家和全局数据的数据源')
+  }),
+  Schema.union([
+    Schema.object({
+      provider: Schema.const('bridge'),
+      apiKey: Schema.string().required().description('Your API Key from https://portal.apexlegendsapi.com/'),
+      apiBaseUrl: Schema.string().default('https://api.mozambiquehe.re').description('API 地址，可改为镜像或反向代理的地址')
+    }),
+    Schema.object({
+      provider: Schema.const('mock').required(),
+      mockFile: Schema.string().default('mock.json').description('模拟数据源使用的脚本文件，相对路径基于数据目录')
+    })
+  ]),
+  Schema.object({
+    proxy: Schema.string().default('').description('API 请求使用的代理，支持 http://、https://、socks5:// 等，例如 http://127.0.0.1:7890，留空不使用代理'),
+    caFile: Schema.string().default('').description('额外信任的 CA 证书文件（PEM 格式），用于自签名证书的镜像或代理，相对路径基于数据目录'),
+    skipTlsVerify: Schema.boolean().default(false).description('跳过 TLS 证书校验（不安全，API 密钥可能被窃取，仅在无法配置 CA 证书时临时使用）'),
+    checkInterval: Schema.number().default(2).description('轮询时间间隔（分钟）'),
+    dataDir: Schema.string().default('./data/apexrankwatch').description('数据存储目录'),
+    maxRetries: Schema.number().default(3).description('API请求最大重试次数'),
+    timeout: Schema.number().default(10000).description('API请求超时时间（毫秒）'),
+    minValidScore: Schema.number().default(1).description('最小有效分数（检测到低于此值的分数时视为可疑读数）'),
+    anomalyMaxChange: Schema.natural().default(1000).description('单次检测分数变化超过此值时视为可疑读数（0 为不检查）'),
+    anomalyConfirmPolls: Schema.natural().default(1).description('可疑读数需要后续检测确认的次数，确认前不通知（0 为直接接受，仅记录日志）'),
+    notFoundPauseThreshold: Schema.natural().default(3).description('连续多少次检测查询不到玩家时暂停对其的监控并通知群（0 为不暂停）'),
+    blacklist: Schema.string().default('').description('黑名单ID列表，多个ID用逗号分隔，例如：player1,player2'),
+    defaultPlatform: Schema.union(['PC', 'PS4', 'X1', 'SWITCH']).default('PC').description('未指定平台时默认查询的平台'),
+    historyRetentionDays: Schema.number().default(90).description('分数变化历史保留天数'),
+    weeklyBoard: Schema.boolean().default(false).description('是否每周向各群自动发送排行榜'),
+    weeklyBoardDay: Schema.number().min(0).max(6).default(0).description('每周排行榜发送日（0 为周日，1-6 为周一至周六）'),
+    weeklyBoardHour: Schema.number().min(0).max(23).default(21).description('每周排行榜发送时间（整点，0-23）'),
+    defaultBatchMinutes: Schema.number().min(1).default(30).description('汇总通知模式下默认的汇总间隔（分钟）'),
+    digestTime: Schema.string().pattern(/^\d{1,2}:\d{2}$/).default('23:00').description('每日摘要模式的发送时间（本地时间，格式 HH:mm）'),
+    watchAuthority: Schema.natural().default(1).description('添加监控所需的最低权限等级'),
+    removeAuthority: Schema.natural().default(1).description('移除自己添加的监控所需的最低权限等级'),
+    removeOthersAuthority: Schema.natural().default(2).description('移除他人添加的监控所需的最低权限等级'),
+    settingsAuthority: Schema.natural().default(2).description('查看和修改本群通知模式、通知规则、上线通知和消息语言所需的最低权限等级'),
+    adminAuthority: Schema.natural().default(3).description('使用管理命令（查看 / 清空任意群的监控）所需的最低权限等级'),
+    adminUsers: Schema.array(String).default([]).description('未启用数据库时拥有全部权限的用户 ID（也可以写成 平台:用户ID）；未启用数据库时其他用户只能使用 1 级权限的命令'),
+    maxPlayersPerGroup: Schema.natural().default(20).description('每个群最多监控的玩家数量（0 为不限制）'),
+    maxPlayersTotal: Schema.natural().default(200).description('所有群合计最多监控的玩家数量（0 为不限制）'),
+    cacheTTL: Schema.natural().default(60).description('玩家数据缓存时间（秒），在此时间内重复查询同一玩家不会再次请求API，0 为不缓存'),
+    persistCache: Schema.boolean().default(false).description('是否将缓存保存到数据目录，重启后继续使用'),
+    rateLimit: Schema.number().min(0.1).default(2).description('API每秒最多请求次数（免费密钥为 2）'),
+    adaptivePolling: Schema.boolean().default(true).description('是否根据玩家在线状态调整检测频率：在线玩家按轮询间隔检测，离线玩家按离线检测间隔检测'),
+    offlineCheckInterval: Schema.number().default(10).description('离线玩家的检测间隔（分钟），仅在开启自适应检测时生效'),
+    sessionIdleMinutes: Schema.number().default(20).description('玩家在线但超过多少分钟没有进行比赛时视为本次游戏结束'),
+    backupCount: Schema.natural().default(3).description('未使用数据库时，数据文件保留的轮换备份数量'),
+    mapAnnouncement: Schema.boolean().default(false).description('排位地图轮换时是否在监控了玩家的群内发送公告'),
+    predatorAlertDistance: Schema.natural().default(500).description('大师玩家距离猎杀者分数线多少分以内时在群内提醒（0 为不提醒）'),
+    customNames: Schema.array(Schema.object({
+      name: Schema.string().required().description('API 返回的英文名称'),
+      'zh-CN': Schema.string().description('简体中文'),
+      'en-US': Schema.string().description('English')
+    })).role('table').default([]).description('自定义名称翻译，用于补充新英雄、地图等，优先于内置词典')
+  })
+])
+
+// 可选依赖数据库服务，存在时群订阅和分数历史写入数据库，否则写入数据目录下的文件
+export const inject = {
+  optional: ['database']
+}
+
+declare module 'koishi' {
+  interface Tables {
+    apex_group: GroupRow
+    apex_player: PlayerRow
+    apex_score_history: ScoreHistoryEntry
+    apex_season_archive: SeasonArchiveEntry
+  }
+}
 
 // 群订阅记录接口
 interface GroupSubscription {
   groupId: string
   players: Record<string, PlayerData>
+  // 创建订阅时的聊天平台、机器人和频道，通知会通过同一个机器人发送到该频道
+  botPlatform?: string
+  selfId?: string
+  channelId?: string
+  notifyMode?: NotifyMode // 未设置时为 realtime
+  batchMinutes?: number // batched 模式的汇总间隔
+  notifyFilter?: NotifyFilter // 未设置时为 all
+  minDiff?: number // 普通分数变化的最小通知幅度
+  onlineNotify?: boolean // 玩家上线时是否通知
+  locale?: string // 消息语言，未设置时使用默认语言
+}
+
+// 玩家的一次游戏过程（上线到下线）
+interface PlaySession {
+  start: number
+  lastActive: number // 最近一次在比赛中或分数变化的时间
+  startScore: number
+  startRank: { rankName: string, rankDiv: number }
+  lastScore: number
+  legends: string[]
+}
+
+// 通知过滤：all 所有变化，division 仅小段及以上变化，tier 仅大段位变化
+export type NotifyFilter = 'all' | 'division' | 'tier'
+
+const notifyFilters: NotifyFilter[] = ['all', 'division', 'tier']
+
+// 段位变化事件
+export type RankEvent = 'none' | 'divisionUp' | 'divisionDown' | 'tierUp' | 'tierDown' | 'predatorEnter' | 'predatorLeave'
+
+// 数据库中的群设置（不含玩家）和群订阅的玩家
+type GroupRow = Omit<GroupSubscription, 'players'>
+type PlayerRow = PlayerData & { groupId: string, playerKey: string }
+
+// 通知模式：realtime 实时通知，batched 按间隔汇总，digest 每日摘要
+type NotifyMode = 'realtime' | 'batched' | 'digest'
+
+const notifyModes: NotifyMode[] = ['realtime', 'batched', 'digest']
+
+// 汇总模式下待发送的分数变化
+interface PendingChange {
+  playerName: string
+  oldScore: number
+  newScore: number
+  rankName: string
+  rankDiv: number
+  timestamp: number
 }
 
 // 玩家数据接口
 interface PlayerData {
   playerName: string
+  platform: Platform
+  uid?: string // 玩家UID，改名后仍保持不变
+  addedBy?: string // 添加监控的用户ID
+  addedAt?: number
   rankScore: number
   rankName: string
   rankDiv: number
@@ -45,80 +216,293 @@ interface PlayerData {
   globalRankPercent?: string
   selectedLegend?: string
   legendStats?: LegendStats // 英雄统计数据
+  predatorZone?: PredatorZone // 相对猎杀者分数线的位置，用于接近提醒
+  season?: string // 当前排位赛季，即 API 的 rankedSeason，例如 season22_split_1
+  paused?: boolean // 连续查询不到玩家时暂停监控，重新添加监控时恢复
+}
+
+// 相对猎杀者分数线的位置：far 较远，near 接近（大师且在提醒距离内），predator 已是猎杀者
+type PredatorZone = 'far' | 'near' | 'predator'
+
+// 分数变化历史记录接口
+interface ScoreHistoryEntry {
+  id?: number
+  playerId: string // 历史记录键，见 getHistoryKey
+  playerName: string
+  platform: Platform
+  timestamp: number
+  oldScore: number
+  newScore: number
+  rankName: string
+  rankDiv: number
+  legend?: string
+  season?: string // 记录时所在的排位赛季
+}
+
+// 赛季归档：玩家在一个赛季结束时的最终段位
+interface SeasonArchiveEntry {
+  id?: number
+  playerId: string // 历史记录键，见 getHistoryKey
+  playerName: string
+  platform: Platform
+  season: string
+  rankScore: number
+  rankName: string
+  rankDiv: number
+  archivedAt: number
+}
+
+// 黑名单条目接口
+interface BlacklistEntry {
+  playerName: string
+  reason?: string
+  addedBy?: string
+  addedAt: number
+}
+
+// 运行时黑名单：全局条目及各群条目，键为小写玩家名
+interface BlacklistData {
+  global: Record<string, BlacklistEntry>
+  groups: Record<string, Record<string, BlacklistEntry>>
+}
+
+// 用户绑定的 Apex 账号，键为 聊天平台:用户ID
+interface AccountBinding {
+  playerName: string
+  platform: Platform
+  uid?: string
+  boundAt: number
 }
 
-// 英雄统计数据接口
+// 英雄的一项追踪器数据
+interface LegendTracker {
+  key: string // API 的追踪器键，例如 specialEvent_kills
+  name: string // API 的追踪器名称，例如 BR Kills
+  value: number
+  globalPercent?: string // 全球排名百分比，API 未计算排名时为空
+}
+
+// 常用追踪器分类
+type TrackerCategory = 'kills' | 'damage' | 'wins'
+
+// 英雄统计数据接口：常用分类单独列出，trackers 保存该英雄的全部追踪器
 interface LegendStats {
   kills?: {
     value: number
-    globalPercent: string
-  }
-}
-
-// 翻译映射表
-const nameMap = {
-  // Rank
-  'Unranked': '菜鸟',
-  'Bronze': '青铜',
-  'Silver': '白银',
-  'Gold': '黄金',
-  'Platinum': '白金',
-  'Diamond': '钻石',
-  'Master': '大师',
-  'Apex Predator': 'Apex 猎杀者',
-  // States
-  'offline': '离线',
-  'online': '在线',
-  'inLobby': '在大厅',
-  'in Lobby': '在大厅',
-  'In lobby': '在大厅',
-  'inMatch': '比赛中',
-  'in Match': '比赛中',
-  'In match': '比赛中',
-  'Offline': '离线',
-  'Online': '在线',
-  'true': '是',
-  'false': '否',
-  // 英雄名称
-  'Bloodhound': '寻血猎犬',
-  'Gibraltar': '直布罗陀',
-  'Lifeline': '命脉',
-  'Pathfinder': '探路者',
-  'Wraith': '恶灵',
-  'Bangalore': '班加罗尔',
-  'Caustic': '侵蚀',
-  'Mirage': '幻象',
-  'Octane': '动力小子',
-  'Wattson': '沃特森',
-  'Crypto': '密客',
-  'Revenant': '亡灵',
-  'Loba': '罗芭',
-  'Rampart': '兰伯特',
-  'Horizon': '地平线',
-  'Fuse': '暴雷',
-  'Valkyrie': '瓦尔基里',
-  'Seer': '希尔',
-  'Ash': '艾许',
-  'Mad Maggie': '疯玛吉',
-  'Newcastle': '纽卡斯尔',
-  'Vantage': '万蒂奇',
-  'Catalyst': '卡特莉丝',
-  'Ballistic': '弹道',
-  'Conduit': '导管',
-  'Alter': '变幻',
-  'Sparrow': '琉雀',
-  // 统计数据名称翻译
-  'BR Kills': '击杀数',
-  'BR Wins': '胜场数',
-  'BR Damage': '造成伤害',
-  'kills': '击杀数',
-  'wins': '胜场数',
-  'damage': '造成伤害'
-}
-
-// 翻译函数
-function translate(name: string): string {
-  return nameMap[name] || name
+    globalPercent?: string
+  }
+  damage?: {
+    value: number
+    globalPercent?: string
+  }
+  wins?: {
+    value: number
+    globalPercent?: string
+  }
+  trackers?: LegendTracker[]
+}
+
+// 旧版本保存的是翻译后的中文名称，用于把旧数据还原为 API 返回的英文名称
+// 同一个中文名称对应多个英文名称时取最后一个（如 菜鸟 → Rookie）
+const legacyNames: Record<string, string> = Object.fromEntries(
+  Object.entries(zhCN.apexrankwatch.names).map(([name, translated]) => [translated, name])
+)
+
+// 平台别名映射表
+const platformAliases: Record<string, Platform> = {
+  'pc': 'PC',
+  'origin': 'PC',
+  'steam': 'PC',
+  'ea': 'PC',
+  'ps': 'PS4',
+  'ps4': 'PS4',
+  'ps5': 'PS4',
+  'psn': 'PS4',
+  'playstation': 'PS4',
+  'x1': 'X1',
+  'xbox': 'X1',
+  'xb': 'X1',
+  'xbl': 'X1',
+  'switch': 'SWITCH',
+  'ns': 'SWITCH'
+}
+
+// 平台显示名称
+const platformNames: Record<Platform, string> = {
+  'PC': 'PC',
+  'PS4': 'PlayStation',
+  'X1': 'Xbox',
+  'SWITCH': 'Switch'
+}
+
+// 本插件注册的命令：执行前等待数据加载完成、迁移旧版群数据并检查权限，其他插件的命令不受影响
+const pluginCommands = new Set([
+  'apextest', 'apexrankhelp', 'apexrank', 'apexrankwatch', 'apexranklist', 'apexrankremove',
+  'apexrankhistory', 'apexrankchart', 'apexcompare', 'apexlegend', 'apexrankboard', 'apexrankseason',
+  'apexrankmode', 'apexrankfilter', 'apexrankonline', 'apexranklocale', 'apexbind', 'apexunbind',
+  'apexmap', 'apexcraft', 'apexpred', 'apexrankadmin', 'apexrankadmin.list', 'apexrankadmin.status',
+  'apexrankadmin.bindings', 'apexrankadmin.clear', 'apexblacklist'
+])
+
+// 把名称还原为 API 返回的英文名称，新数据原样返回
+function normalizeName(name: string): string {
+  return Object.hasOwn(legacyNames, name) ? legacyNames[name] : name
+}
+
+// 解析平台参数，无法识别时返回 null
+function normalizePlatform(platform: string): Platform | null {
+  if (!platform) return null
+  const alias = platform.trim().toLowerCase()
+  return Object.hasOwn(platformAliases, alias) ? platformAliases[alias] : null
+}
+
+// 生成订阅键：同名玩家在不同平台上视为不同订阅
+function getPlayerKey(playerName: string, platform: Platform): string {
+  return `${platform}:${playerName.toLowerCase()}`
+}
+
+// 生成请求键：有UID时按UID查询，用于缓存和合并相同玩家的请求
+function getRequestKey(player: { playerName: string, platform: Platform, uid?: string }): string {
+  return player.uid ? `${player.platform}:uid:${player.uid}` : getPlayerKey(player.playerName, player.platform)
+}
+
+// 生成历史记录键：与请求键相同，有UID时按UID记录，改名后历史仍然连续
+function getHistoryKey(player: { playerName: string, platform: Platform, uid?: string }): string {
+  return getRequestKey(player)
+}
+
+// 格式化日期，例如 2025/01/01
+function formatDay(timestamp: number): string {
+  const date = new Date(timestamp)
+  return `${date.getFullYear()}/${String(date.getMonth() + 1).padStart(2, '0')}/${String(date.getDate()).padStart(2, '0')}`
+}
+
+// 格式化时间，例如 08:30
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp)
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+// 排行榜统计范围
+type BoardWindow = 'today' | 'week' | 'season'
+
+const boardWindowAliases: Record<string, BoardWindow> = {
+  'today': 'today',
+  'day': 'today',
+  '今日': 'today',
+  '今天': 'today',
+  'week': 'week',
+  '本周': 'week',
+  '一周': 'week',
+  'season': 'season',
+  '本赛季': 'season',
+  '赛季': 'season'
+}
+
+// 解析 API 的赛季名称，例如 season22_split_1 → { season: 22, split: 1 }
+function parseSeason(season: string): { season: number, split: number } | null {
+  const match = season?.match(/season(\d+)_split_(\d+)/i)
+  return match ? { season: Number(match[1]), split: Number(match[2]) } : null
+}
+
+// 判断赛季是否匹配查询：完整名称（season22_split_1）、赛季号（22，匹配该赛季的所有阶段）或赛季-阶段（22-1）
+function matchesSeason(season: string, query: string): boolean {
+  if (!season) return false
+  
+  const match = query.trim().toLowerCase().match(/^s?(\d+)(?:[-._](\d+))?$/)
+  if (!match) return season.toLowerCase() === query.trim().toLowerCase()
+  
+  const parsed = parseSeason(season)
+  return !!parsed && parsed.season === Number(match[1]) && (!match[2] || parsed.split === Number(match[2]))
+}
+
+// 格式化带符号的分数变化，例如 +25 / -10
+function formatDiff(diff: number): string {
+  return diff > 0 ? `+${diff}` : `${diff}`
+}
+
+// 段位从低到高排列（翻译后的名称）
+const rankOrder = ['Rookie', 'Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond', 'Master', 'Apex Predator']
+
+// 获取段位序号，兼容翻译前后的名称，未知段位返回 -1
+function getTierIndex(rankName: string): number {
+  const name = normalizeName(rankName)
+  return rankOrder.indexOf(name === 'Unranked' ? 'Rookie' : name)
+}
+
+// 判断两次段位之间的变化事件，小段位数字越小越高（4 → 1）
+export function classifyRankChange(oldRank: { rankName: string, rankDiv: number }, newRank: { rankName: string, rankDiv: number }): RankEvent {
+  const oldTier = getTierIndex(oldRank.rankName)
+  const newTier = getTierIndex(newRank.rankName)
+  const predator = rankOrder.length - 1
+  
+  if (oldTier === -1 || newTier === -1) return 'none'
+  if (newTier === predator && oldTier !== predator) return 'predatorEnter'
+  if (oldTier === predator && newTier !== predator) return 'predatorLeave'
+  if (newTier > oldTier) return 'tierUp'
+  if (newTier < oldTier) return 'tierDown'
+  if (newRank.rankDiv && oldRank.rankDiv && newRank.rankDiv < oldRank.rankDiv) return 'divisionUp'
+  if (newRank.rankDiv && oldRank.rankDiv && newRank.rankDiv > oldRank.rankDiv) return 'divisionDown'
+  return 'none'
+}
+
+// 判断群是否需要收到本次变化的通知
+export function shouldNotify(group: { notifyFilter?: NotifyFilter, minDiff?: number }, event: RankEvent, diff: number): boolean {
+  const filter = group.notifyFilter || 'all'
+  
+  if (event === 'predatorEnter' || event === 'predatorLeave' || event === 'tierUp' || event === 'tierDown') return true
+  if (event === 'divisionUp' || event === 'divisionDown') return filter !== 'tier'
+  return filter === 'all' && Math.abs(diff) >= (group.minDiff || 0)
+}
+
+// 令牌桶限速器：每秒补充 rate 个令牌，最多积攒 burst 个
+function createRateLimiter(rate: number, burst: number) {
+  let tokens = burst
+  let lastRefill = Date.now()
+  let pausedUntil = 0
+  
+  function refill() {
+    const now = Date.now()
+    tokens = Math.min(burst, tokens + (now - lastRefill) / 1000 * rate)
+    lastRefill = now
+  }
+  
+  return {
+    // 等待直到获得一个令牌
+    async acquire() {
+      while (true) {
+        refill()
+        const now = Date.now()
+        if (pausedUntil > now) {
+          await new Promise(resolve => setTimeout(resolve, pausedUntil - now))
+          continue
+        }
+        if (tokens >= 1) {
+          tokens -= 1
+          return
+        }
+        await new Promise(resolve => setTimeout(resolve, (1 - tokens) / rate * 1000))
+      }
+    },
+    // 收到 429 时暂停发放令牌
+    pause(ms: number) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms)
+      tokens = 0
+    },
+    state() {
+      refill()
+      return { tokens, pausedUntil }
+    }
+  }
+}
+
+// 解析 Retry-After 响应头（秒数或 HTTP 日期），返回毫秒数
+export function parseRetryAfter(value: string | undefined): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return seconds * 1000
+  const date = Date.parse(value)
+  return isNaN(date) ? null : Math.max(0, date - Date.now())
 }
 
 // 检查字符串是否包含指定模式
@@ -127,6 +511,68 @@ function containsPattern(text: string, pattern: string): boolean {
   return text.toLowerCase().includes(pattern.toLowerCase())
 }
 
+// 各分类对应的追踪器键和名称（小写），大逃杀和赛季活动的追踪器都归入同一分类
+const trackerAliases: Record<TrackerCategory, string[]> = {
+  kills: ['kills', 'br kills', 'specialevent_kills', 'special event kills'],
+  damage: ['damage', 'br damage', 'specialevent_damage', 'special event damage'],
+  wins: ['wins', 'br wins', 'specialevent_wins', 'special event wins']
+}
+const trackerCategories = Object.keys(trackerAliases) as TrackerCategory[]
+
+// 解析 API 返回的追踪器列表，忽略没有数值的条目
+function parseLegendTrackers(data: any[]): LegendTracker[] {
+  if (!Array.isArray(data)) return []
+  
+  return data
+    .filter(stat => stat && typeof stat.value === 'number')
+    .map(stat => ({
+      key: stat.key || '',
+      name: stat.name || stat.key || '',
+      value: stat.value,
+      // 排名尚未计算时 API 返回字符串，这里只保留数值
+      globalPercent: typeof stat.rank?.topPercent === 'number' ? stat.rank.topPercent.toFixed(2) : undefined
+    }))
+}
+
+// 查找追踪器分类，不属于常用分类时返回 undefined
+function getTrackerCategory(tracker: LegendTracker): TrackerCategory | undefined {
+  const names = [tracker.key.toLowerCase(), tracker.name.toLowerCase()]
+  return trackerCategories.find(category => names.some(name => trackerAliases[category].includes(name)))
+}
+
+// 由追踪器列表生成英雄统计数据，同一分类有多个追踪器时优先使用有排名的
+function buildLegendStats(trackers: LegendTracker[]): LegendStats | null {
+  if (trackers.length === 0) return null
+  
+  const stats: LegendStats = { trackers }
+  for (const category of trackerCategories) {
+    const matches = trackers.filter(tracker => getTrackerCategory(tracker) === category)
+    const tracker = matches.find(item => item.globalPercent) || matches[0]
+    if (tracker) {
+      stats[category] = { value: tracker.value, globalPercent: tracker.globalPercent }
+    }
+  }
+  return stats
+}
+
+// 解析所有英雄的统计数据，当前英雄的数据最新，覆盖 legends.all 中的同名英雄
+function parseAllLegendStats(legendsData: any): Record<string, LegendStats> {
+  const result: Record<string, LegendStats> = {}
+  
+  for (const legend in legendsData?.all || {}) {
+    const stats = buildLegendStats(parseLegendTrackers(legendsData.all[legend]?.data))
+    if (stats) result[legend] = stats
+  }
+  
+  const selected = legendsData?.selected
+  const selectedStats = buildLegendStats(parseLegendTrackers(selected?.data))
+  if (selected?.LegendName && selectedStats) {
+    result[selected.LegendName] = selectedStats
+  }
+  
+  return result
+}
+
 // 检查玩家ID是否在黑名单中
 function isBlacklisted(playerName: string, blacklist: string): boolean {
   if (!blacklist || blacklist.trim() === '') return false
@@ -136,13 +582,25 @@ function isBlacklisted(playerName: string, blacklist: string): boolean {
   return blacklistArray.includes(playerName.toLowerCase())
 }
 
-// 判断分数变化是否异常（从高分掉到接近0分）
-function isScoreDropAbnormal(oldScore: number, newScore: number): boolean {
-  return oldScore > 1000 && newScore < 10 && newScore < oldScore
+// 黑名单以小写的玩家名称为键，使用没有原型的对象保存
+// 否则 constructor、__proto__ 之类的名称会命中或修改原型上的属性
+function createEntryMap<T>(entries?: Record<string, T>): Record<string, T> {
+  return Object.assign(Object.create(null), entries)
+}
+
+// 截断原始API响应，用于在日志中诊断异常读数
+function formatRawResponse(data: any, maxLength: number = 2000): string {
+  let text: string
+  try {
+    text = JSON.stringify(data)
+  } catch {
+    text = String(data)
+  }
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...（共 ${text.length} 字符）` : text
 }
 
 // 判断是否为赛季重置
-function isLikelySeasonReset(oldScore: number, newScore: number): boolean {
+export function isLikelySeasonReset(oldScore: number, newScore: number): boolean {
   // 下降超过1000分，但不是掉到接近0分，可能是赛季重置
   return newScore < oldScore && (oldScore - newScore) > 1000 && newScore >= 10
 }
@@ -152,367 +610,2964 @@ export function apply(ctx: Context, config: Config) {
   ctx.logger.info('Apex Legends 排名监控插件已加载')
   ctx.logger.info(`配置：检测间隔 ${config.checkInterval} 分钟`)
   
-  // 检查是否有OneBot实例可用，但不强制要求
-  const bots = ctx.bots.filter(bot => bot.platform === 'onebot')
-  if (bots.length > 0) {
-    ctx.logger.info(`找到 ${bots.length} 个OneBot实例: ${bots.map(bot => bot.selfId).join(', ')}`)
-  } else {
-    ctx.logger.warn('未找到可用的OneBot机器人实例，消息通知功能可能不可用')
-    // 注意这里只是警告，不影响插件加载
-  }
-
   // 创建数据目录
   if (!fs.existsSync(config.dataDir)) {
     fs.mkdirSync(config.dataDir, { recursive: true })
   }
   
   const dataFile = path.join(config.dataDir, 'groups.json')
+  const historyFile = path.join(config.dataDir, 'history.json')
+  const blacklistFile = path.join(config.dataDir, 'blacklist.json')
+  const cacheFile = path.join(config.dataDir, 'cache.json')
+  const bindingFile = path.join(config.dataDir, 'bindings.json')
+  const seasonFile = path.join(config.dataDir, 'seasons.json')
   let groupSubscriptions: Record<string, GroupSubscription> = {}
+  let scoreHistory: Record<string, ScoreHistoryEntry[]> = {}
+  // 赛季归档，键为赛季名称
+  let seasonArchive: Record<string, SeasonArchiveEntry[]> = {}
+  let blacklistData: BlacklistData = { global: createEntryMap(), groups: createEntryMap() }
+  let bindingData: Record<string, AccountBinding> = {}
+  
+  // API响应缓存（键见 getRequestKey）及正在进行中的请求
+  let responseCache: Record<string, { data: any, expires: number }> = {}
+  const pendingRequests = new Map<string, Promise<any>>()
+  
+  // 以下数据表仅在数据库服务可用时使用
+  ctx.model.extend('apex_group', {
+    groupId: 'string',
+    botPlatform: 'string',
+    selfId: 'string',
+    channelId: 'string',
+    notifyMode: 'string',
+    batchMinutes: 'unsigned',
+    notifyFilter: 'string',
+    minDiff: 'unsigned',
+    onlineNotify: 'boolean',
+    locale: 'string'
+  }, {
+    primary: 'groupId'
+  })
+  
+  ctx.model.extend('apex_player', {
+    groupId: 'string',
+    playerKey: 'string',
+    playerName: 'string',
+    platform: 'string',
+    uid: 'string',
+    addedBy: 'string',
+    addedAt: 'double',
+    rankScore: 'integer',
+    rankName: 'string',
+    rankDiv: 'integer',
+    lastChecked: 'double',
+    globalRankPercent: 'string',
+    selectedLegend: 'string',
+    legendStats: 'json',
+    predatorZone: 'string',
+    season: 'string',
+    paused: 'boolean'
+  }, {
+    primary: ['groupId', 'playerKey']
+  })
+  
+  ctx.model.extend('apex_score_history', {
+    id: 'unsigned',
+    playerId: 'string',
+    playerName: 'string',
+    platform: 'string',
+    timestamp: 'double',
+    oldScore: 'integer',
+    newScore: 'integer',
+    rankName: 'string',
+    rankDiv: 'integer',
+    legend: 'string',
+    season: 'string'
+  }, {
+    autoInc: true
+  })
+  
+  ctx.model.extend('apex_season_archive', {
+    id: 'unsigned',
+    playerId: 'string',
+    playerName: 'string',
+    platform: 'string',
+    season: 'string',
+    rankScore: 'integer',
+    rankName: 'string',
+    rankDiv: 'integer',
+    archivedAt: 'double'
+  }, {
+    autoInc: true
+  })
+  
+  // 语言包
+  const localeData = { 'zh-CN': zhCN, 'en-US': enUS }
+  for (const locale in localeData) {
+    ctx.i18n.define(locale, localeData[locale])
+  }
+  
+  // 配置中的自定义名称，按语言分组，优先于语言包中的名称
+  const customNames: Record<string, Record<string, string>> = {}
+  for (const { name, ...translations } of config.customNames) {
+    for (const locale in translations) {
+      if (translations[locale]) {
+        customNames[locale] = { ...customNames[locale], [name]: translations[locale] }
+      }
+    }
+  }
+  
+  // 解析消息语言：取回退顺序中第一个有语言包的语言
+  function resolveLocale(locales: string[] = []): string {
+    return ctx.i18n.fallback(locales).find(locale => Object.hasOwn(localeData, locale)) || 'zh-CN'
+  }
+  
+  // 群或会话的消息语言：群设置的语言优先，其次是会话的语言
+  function getLocale(groupId?: string, session?: Session): string {
+    const locale = groupId && groupSubscriptions[groupId]?.locale
+    return resolveLocale(locale ? [locale] : session?.locales)
+  }
+  
+  // 渲染消息模板
+  function t(locale: string, path: string, params: object = {}): string {
+    return ctx.i18n.render([locale], [`apexrankwatch.${path}`], params).join('')
+  }
+  
+  // 翻译英雄、段位、地图等名称：自定义名称优先，其次是语言包，都没有时使用原名
+  function translateName(locale: string, name: string): string {
+    if (!name) return name
+    
+    const raw = normalizeName(name)
+    const custom = customNames[locale] || {}
+    if (Object.hasOwn(custom, raw)) return custom[raw]
+    
+    const names = localeData[locale].apexrankwatch.names
+    return Object.hasOwn(names, raw) ? names[raw] : raw
+  }
+  
+  // 段位显示文本，例如 黄金 2
+  function formatRank(locale: string, rank: { rankName: string, rankDiv: number }): string {
+    const rankName = translateName(locale, rank.rankName)
+    return rank.rankDiv !== 0 ? `${rankName} ${rank.rankDiv}` : rankName
+  }
+  
+  // 当前状态显示文本，例如 比赛中 (00:39)
+  function formatState(locale: string, playerData: { currentState: string, stateTime?: string }): string {
+    const state = translateName(locale, playerData.currentState)
+    return playerData.stateTime ? `${state} (${playerData.stateTime})` : state
+  }
+  
+  // 赛季显示文本，例如 第 22 赛季第 1 阶段，无法解析时使用原名
+  function formatSeason(locale: string, season: string): string {
+    const parsed = parseSeason(season)
+    return parsed ? t(locale, 'season.name', parsed) : season
+  }
+  
+  // 格式化剩余时间（秒），例如 1天3小时、2小时5分钟、12分钟
+  function formatRemaining(locale: string, seconds: number): string {
+    const minutes = Math.max(0, Math.ceil(seconds / 60))
+    const days = Math.floor(minutes / 1440)
+    const hours = Math.floor(minutes % 1440 / 60)
+    if (days > 0) return t(locale, hours > 0 ? 'time.days-hours' : 'time.days', { days, hours })
+    if (hours > 0) return t(locale, minutes % 60 > 0 ? 'time.hours-minutes' : 'time.hours', { hours, minutes: minutes % 60 })
+    return t(locale, 'time.minutes', { minutes })
+  }
+  
+  // 日志中需要隐藏的敏感信息，URL 中的密钥可能经过编码
+  const secrets = [config.apiKey, encodeURIComponent(config.apiKey || '')].filter(Boolean)
+  
+  // API 请求使用的连接：默认校验证书，可额外信任自定义 CA，配置代理时通过代理连接
+  function createApiAgent(): https.Agent {
+    const options: https.AgentOptions = {
+      keepAlive: true,
+      rejectUnauthorized: !config.skipTlsVerify
+    }
+    
+    if (config.caFile) {
+      const caFile = path.resolve(config.dataDir, config.caFile)
+      try {
+        options.ca = [...tls.rootCertificates, fs.readFileSync(caFile, 'utf-8')]
+      } catch (error) {
+        throw new Error(`无法读取 CA 证书文件 ${caFile}: ${error.message}`)
+      }
+    }
+    if (config.skipTlsVerify) {
+      ctx.logger.warn('已关闭 TLS 证书校验，API 密钥可能被中间人窃取，建议改为配置 CA 证书文件')
+    }
+    
+    if (!config.proxy) return new https.Agent(options)
+    
+    ctx.logger.info(`API 请求将通过代理 ${redactSecrets(config.proxy, secrets)} 发送`)
+    const agent = /^socks/i.test(config.proxy)
+      ? new SocksProxyAgent(config.proxy, options)
+      : new HttpsProxyAgent(config.proxy, options)
+    
+    // 代理库只把证书选项用于连接代理本身，通过代理连接 API 服务器时需要再次传入
+    const connect = agent.connect.bind(agent)
+    agent.connect = (req, opts) => connect(req, { ...opts, ca: options.ca, rejectUnauthorized: options.rejectUnauthorized })
+    return agent
+  }
   
   // 创建自定义的axios实例，增强错误处理能力
+  const apiAgent = createApiAgent()
   const axiosInstance = axios.create({
     timeout: config.timeout,
-    httpsAgent: new https.Agent({
-      rejectUnauthorized: false,
-      keepAlive: true
-    }),
+    httpsAgent: apiAgent,
+    // 配置代理时由代理连接处理所有请求，不再使用环境变量中的代理
+    ...config.proxy ? { httpAgent: apiAgent, proxy: false as const } : {},
     maxRedirects: 5,
     headers: {
       'User-Agent': 'Koishi-ApexRankWatch/1.0'
     }
   })
   
-  // 加载已保存的群订阅数据
-  if (fs.existsSync(dataFile)) {
+  // 转换为分类后的错误，并隐藏错误信息中的 API 密钥，避免写入日志
+  function toSafeApiError(error: any): ApiError {
+    const apiError = toApiError(error)
+    apiError.message = redactSecrets(apiError.message, secrets)
+    if (apiError.stack) apiError.stack = redactSecrets(apiError.stack, secrets)
+    return apiError
+  }
+  
+  // 读取数据文件，主文件损坏时从备份恢复
+  function loadJsonFile<T>(file: string, description: string): T | undefined {
     try {
-      groupSubscriptions = JSON.parse(fs.readFileSync(dataFile, 'utf-8'))
+      return readJsonFile<T>(file, config.backupCount, (backup, error) => {
+        ctx.logger.warn(`${description}文件损坏 (${error.message})，已从备份 ${backup} 恢复`)
+      })
     } catch (error) {
-      ctx.logger.error('加载群订阅数据失败:', error)
+      ctx.logger.error(`加载${description}失败，损坏的文件已改名保留:`, error)
     }
   }
   
-  // 保存群订阅数据的函数
-  function saveGroupData() {
+  // 写入数据文件（临时文件 + 重命名），并保留轮换备份
+  function saveJsonFile(file: string, data: any, description: string, backups = config.backupCount) {
     try {
-      fs.writeFileSync(dataFile, JSON.stringify(groupSubscriptions), 'utf-8')
+      writeJsonFile(file, data, backups)
     } catch (error) {
-      ctx.logger.error('保存群订阅数据失败:', error)
+      ctx.logger.error(`保存${description}失败:`, error)
     }
   }
   
-  // 带重试功能的API请求函数
-  async function apiRequestWithRetry(url: string, params: any, maxRetries: number = config.maxRetries): Promise<any> {
-    let lastError: any
+  // 当前使用的数据库，数据库服务可用前为 undefined，此时数据保存在文件中
+  let database: Context['database'] | undefined
+  // 上一次与数据库同步的行，键为主键，值为序列化后的行；保存时只写入有变化的行
+  let savedGroupRows = new Map<string, string>()
+  let savedPlayerRows = new Map<string, string>()
+  
+  // 加载运行时黑名单
+  const savedBlacklist = loadJsonFile<Partial<BlacklistData>>(blacklistFile, '黑名单')
+  blacklistData = {
+    global: createEntryMap(savedBlacklist?.global),
+    groups: createEntryMap(Object.fromEntries(Object.entries(savedBlacklist?.groups || {}).map(([groupId, entries]) => [groupId, createEntryMap(entries)])))
+  }
+  
+  // 先从文件加载群订阅数据和分数历史
+  groupSubscriptions = loadJsonFile<Record<string, GroupSubscription>>(dataFile, '群订阅数据') || {}
+  scoreHistory = loadJsonFile<Record<string, ScoreHistoryEntry[]>>(historyFile, '分数历史') || {}
+  seasonArchive = loadJsonFile<Record<string, SeasonArchiveEntry[]>>(seasonFile, '赛季归档') || {}
+  migrateGroupData()
+  
+  // 数据库服务可用时切换到数据库存储
+  // 数据加载完成前不执行本插件的命令，也不开始检测
+  let dataLoaded = Promise.resolve()
+  ctx.inject(['database'], (ctx) => {
+    dataLoaded = useDatabase(ctx.database).catch(error => {
+      database = undefined
+      ctx.logger.error('切换到数据库存储失败，继续使用文件存储:', error)
+    })
     
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        if (attempt > 0) {
-          const delay = Math.pow(2, attempt) * 1000
-          ctx.logger.info(`正在重试API请求 (尝试 ${attempt}/${maxRetries}) 延迟 ${delay}ms...`)
-          await new Promise(resolve => setTimeout(resolve, delay))
-        }
-        
-        const response = await axiosInstance.get(url, { params })
-        return response.data
-      } catch (error) {
-        lastError = error
-        
-        const isRetriableError = error.code === 'ECONNRESET' || 
-                                error.code === 'ETIMEDOUT' || 
-                                error.code === 'ECONNABORTED' ||
-                                (error.response && (error.response.status >= 500 || error.response.status === 429))
-        
-        if (isRetriableError && attempt < maxRetries) {
-          ctx.logger.warn(`API请求失败，错误: (${error.code || error.message})。正在重试...`)
-          continue
-        }
-        
-        throw error
-      }
+    ctx.on('dispose', () => {
+      database = undefined
+    })
+  })
+  
+  // 判断用户是否达到权限等级：启用数据库时使用 Koishi 的用户权限；
+  // 未启用数据库时 Koishi 不检查权限，1 级及以下的命令所有人可用，更高权限只给配置的管理员
+  function hasAuthority(session: Session<'authority'>, level: number): boolean {
+    if (session.user) return session.user.authority >= level
+    return level <= 1 || config.adminUsers.includes(session.userId) || config.adminUsers.includes(`${session.platform}:${session.userId}`)
+  }
+  
+  ctx.on('command/before-execute', async ({ command, session }) => {
+    if (!pluginCommands.has(command.name)) return
+    await dataLoaded
+    
+    if (session.guildId) {
+      migrateLegacyGroup(session)
+    }
+    
+    if (!hasAuthority(session as Session<'authority'>, command.config.authority ?? 1)) {
+      return session.text('internal.low-authority')
     }
+  })
+  
+  // 从数据库加载群订阅数据，并把数据目录下尚未导入的文件导入数据库
+  async function useDatabase(db: Context['database']) {
+    const [groupRows, playerRows] = await Promise.all([
+      db.get('apex_group', {}),
+      db.get('apex_player', {})
+    ])
+    database = db
+    savedGroupRows = new Map()
+    savedPlayerRows = new Map()
     
-    throw lastError
+    if (groupRows.length === 0 && playerRows.length === 0) {
+      await importGroupFile()
+    } else {
+      if (fs.existsSync(dataFile)) {
+        ctx.logger.warn('数据库中已有群订阅数据，未导入 groups.json')
+      }
+      loadGroupRows(groupRows, playerRows)
+    }
+    await importHistoryFiles()
   }
   
-  // 向群发送消息的函数
-  async function sendGroupMessage(groupId: string, message: string): Promise<boolean> {
-    // 检查是否有OneBot实例可用
-    const bots = ctx.bots.filter(bot => bot.platform === 'onebot')
-    if (bots.length === 0) {
-      ctx.logger.warn('发送失败: 未找到可用的OneBot机器人实例')
-      return false
+  // 用数据库中的群订阅替换内存中的数据
+  function loadGroupRows(groupRows: GroupRow[], playerRows: PlayerRow[]) {
+    groupSubscriptions = {}
+    for (const row of groupRows) {
+      groupSubscriptions[row.groupId] = { ...row, players: {} }
     }
-    
-    for (const bot of bots) {
-      try {
-        // 尝试使用bot.sendMessage方法发送消息
-        await bot.sendMessage(groupId, message)
-        ctx.logger.info(`消息发送成功: 群 ${groupId}`)
-        return true
-      } catch (error) {
-        ctx.logger.error(`机器人 ${bot.selfId} 发送消息失败:`, error)
-        
-        // 尝试备用方法
-        try {
-          if (bot.internal && typeof bot.internal.sendGroupMsg === 'function') {
-            await bot.internal.sendGroupMsg(groupId, message)
-            ctx.logger.info(`使用备用方法消息发送成功: 群 ${groupId}`)
-            return true
-          }
-        } catch (err) {
-          ctx.logger.error(`备用方法也失败:`, err)
-        }
+    for (const { groupId, playerKey, ...player } of playerRows) {
+      if (!groupSubscriptions[groupId]) {
+        groupSubscriptions[groupId] = { groupId, players: {} }
       }
+      groupSubscriptions[groupId].players[playerKey] = player
+    }
+    for (const row of groupRows) {
+      savedGroupRows.set(row.groupId, JSON.stringify(row))
+    }
+    for (const row of playerRows) {
+      savedPlayerRows.set(JSON.stringify([row.groupId, row.playerKey]), JSON.stringify(row))
     }
+    migrateGroupData()
+  }
+  
+  // 导入后的文件改名为 *.imported；已有同名文件时加上时间戳，不覆盖之前导入的文件
+  function markImported(file: string) {
+    const target = fs.existsSync(`${file}.imported`) ? `${file}.imported-${Date.now()}` : `${file}.imported`
+    fs.renameSync(file, target)
+  }
+  
+  // 数据库中没有群订阅时把 groups.json 导入数据库，导入后文件改名为 groups.json.imported
+  async function importGroupFile() {
+    if (!fs.existsSync(dataFile)) return
     
-    ctx.logger.error(`所有机器人发送消息到群 ${groupId} 均失败`)
-    return false
+    await saveToDatabase()
+    markImported(dataFile)
+    ctx.logger.info(`已将 ${Object.keys(groupSubscriptions).length} 个群的订阅数据从 groups.json 导入数据库`)
   }
   
-  // 测试命令
-  ctx.command('apextest')
-    .action(async ({ session }) => {
-      ctx.logger.info('收到apextest命令')
-      
-      if (session?.guildId) {
-        ctx.logger.info(`在群 ${session.guildId} 中执行测试命令`)
-        const success = await sendGroupMessage(session.guildId, '✅ Apex Legends 排名监控测试消息')
-        if (success) {
-          return '✅ Apex Legends 排名监控插件正常运行中，已发送测试消息到本群'
-        } else {
-          return '✅ Apex Legends 排名监控插件正常运行中，但发送消息失败，可能缺少OneBot适配器'
-        }
+  // 把 history.json 和 seasons.json 追加到数据库，全部导入后文件改名为 *.imported
+  // 两个文件分别检查，未启用数据库期间新产生的记录在下次启用数据库时同样会被导入
+  // 数据库中已有的记录会跳过，上次导入中途失败时重新导入不会产生重复记录
+  async function importHistoryFiles() {
+    if (fs.existsSync(historyFile)) {
+      const existing = new Set((await database.get('apex_score_history', { playerId: Object.keys(scoreHistory) }, ['playerId', 'timestamp']))
+        .map(row => `${row.playerId}:${row.timestamp}`))
+      let imported = 0
+      for (const { id, ...entry } of Object.values(scoreHistory).flat()) {
+        if (existing.has(`${entry.playerId}:${entry.timestamp}`)) continue
+        await database.create('apex_score_history', entry)
+        imported++
       }
-      
-      return '✅ Apex Legends 排名监控插件正常运行中'
+      markImported(historyFile)
+      scoreHistory = {}
+      ctx.logger.info(`已将 ${imported} 条分数历史从 history.json 导入数据库`)
+    }
+    
+    if (fs.existsSync(seasonFile)) {
+      let imported = 0
+      for (const { id, ...entry } of Object.values(seasonArchive).flat()) {
+        if (await archiveSeasonEntry(entry)) imported++
+      }
+      markImported(seasonFile)
+      seasonArchive = {}
+      ctx.logger.info(`已将 ${imported} 条赛季归档从 seasons.json 导入数据库`)
+    }
+  }
+  
+  // 把内存中的群订阅同步到数据库：只写入与上次同步相比有变化的行，并按主键删除已移除的群和玩家
+  // 写入成功后才更新记录的行，失败时下次保存会重试
+  async function saveToDatabase() {
+    const groupRows = new Map<string, string>()
+    const playerRows = new Map<string, string>()
+    for (const { players, ...group } of Object.values(groupSubscriptions)) {
+      groupRows.set(group.groupId, JSON.stringify(group))
+      for (const playerKey in players) {
+        const row: PlayerRow = { groupId: group.groupId, playerKey, ...players[playerKey] }
+        playerRows.set(JSON.stringify([group.groupId, playerKey]), JSON.stringify(row))
+      }
+    }
+    
+    const changedGroups = [...groupRows].filter(([key, row]) => savedGroupRows.get(key) !== row)
+    const changedPlayers = [...playerRows].filter(([key, row]) => savedPlayerRows.get(key) !== row)
+    const removedGroups = [...savedGroupRows.keys()].filter(key => !groupRows.has(key))
+    const removedPlayers = [...savedPlayerRows.keys()].filter(key => !playerRows.has(key))
+    
+    if (changedGroups.length > 0) {
+      await database.upsert('apex_group', changedGroups.map(([, row]) => JSON.parse(row) as GroupRow))
+    }
+    if (changedPlayers.length > 0) {
+      await database.upsert('apex_player', changedPlayers.map(([, row]) => JSON.parse(row) as PlayerRow))
+    }
+    if (removedGroups.length > 0) {
+      await database.remove('apex_group', { groupId: removedGroups })
+    }
+    for (const key of removedPlayers) {
+      const [groupId, playerKey] = JSON.parse(key)
+      await database.remove('apex_player', { groupId, playerKey })
+    }
+    
+    savedGroupRows = groupRows
+    savedPlayerRows = playerRows
+  }
+  
+  // 加载用户绑定的账号
+  bindingData = loadJsonFile<Record<string, AccountBinding>>(bindingFile, '账号绑定') || {}
+  
+  // 加载持久化的缓存，丢弃已过期的条目
+  if (config.persistCache) {
+    try {
+      const saved = readJsonFile(cacheFile) || {}
+      for (const key in saved) {
+        if (saved[key].expires > Date.now()) {
+          responseCache[key] = saved[key]
+        }
+      }
+    } catch (error) {
+      ctx.logger.error('加载缓存失败:', error)
+    }
+  }
+  
+  // 迁移旧版数据：旧版本只支持 PC 平台，且订阅键只有小写玩家名
+  function migrateGroupData() {
+    let migrated = false
+    
+    for (const groupId in groupSubscriptions) {
+      const players = groupSubscriptions[groupId].players || {}
+      
+      for (const playerKey of Object.keys(players)) {
+        const player = players[playerKey]
+        if (!player.platform) {
+          player.platform = 'PC'
+        }
+        
+        // 旧版本保存的是中文段位名和英雄名，还原为英文，避免升级后误判为段位变化
+        const rankName = normalizeName(player.rankName)
+        const selectedLegend = normalizeName(player.selectedLegend)
+        if (rankName !== player.rankName || selectedLegend !== player.selectedLegend) {
+          player.rankName = rankName
+          player.selectedLegend = selectedLegend
+          migrated = true
+        }
+        
+        const newKey = getPlayerKey(player.playerName, player.platform)
+        if (newKey !== playerKey) {
+          delete players[playerKey]
+          players[newKey] = player
+          migrated = true
+        }
+      }
+    }
+    
+    // 旧版本以群号为键，已记录聊天平台的群改为 平台:群号
+    for (const groupId of Object.keys(groupSubscriptions)) {
+      const platform = groupSubscriptions[groupId].botPlatform
+      if (platform && !groupId.startsWith(`${platform}:`)) {
+        renameGroup(groupId, `${platform}:${groupId}`)
+        migrated = true
+      }
+    }
+    
+    if (migrated) {
+      ctx.logger.info('已将旧版群订阅数据迁移为当前格式')
+      saveGroupData()
+    }
+  }
+  
+  // 玩家改名后更新订阅：修改玩家名并重新生成订阅键
+  // 若本群已存在新名字的订阅，则移除旧订阅避免重复，返回 false
+  function renameSubscription(group: GroupSubscription, playerKey: string, newName: string): boolean {
+    const player = group.players[playerKey]
+    const newKey = getPlayerKey(newName, player.platform)
+    
+    delete group.players[playerKey]
+    
+    if (group.players[newKey]) {
+      ctx.logger.warn(`群 ${group.groupId} 中已存在 ${newName} 的监控，移除重复的旧订阅 ${player.playerName}`)
+      return false
+    }
+    
+    player.playerName = newName
+    group.players[newKey] = player
+    return true
+  }
+  
+  // 保存黑名单的函数
+  function saveBlacklistData() {
+    saveJsonFile(blacklistFile, blacklistData, '黑名单')
+  }
+  
+  // 保存账号绑定的函数
+  function saveBindingData() {
+    saveJsonFile(bindingFile, bindingData, '账号绑定')
+  }
+  
+  // 用户绑定记录的键，同一用户在不同聊天平台上分别绑定
+  function getBindingKey(session: Session): string {
+    return `${session.platform}:${session.userId}`
+  }
+  
+  // 群订阅和本群黑名单的键，不同聊天平台的群号可能相同，私聊中为 undefined
+  function getGroupKey(session: Session): string | undefined {
+    if (!session.guildId) return undefined
+    return `${session.platform}:${session.guildId}`
+  }
+  
+  // 按键或群号查找群订阅的键，群号只对应一个群时才能省略平台
+  function findGroupKey(groupId: string): string | undefined {
+    if (Object.hasOwn(groupSubscriptions, groupId)) return groupId
+    const matches = Object.keys(groupSubscriptions).filter(key => key.endsWith(`:${groupId}`))
+    return matches.length === 1 ? matches[0] : undefined
+  }
+  
+  // 把群订阅和本群黑名单移动到新的键下
+  function renameGroup(oldKey: string, newKey: string) {
+    const group = groupSubscriptions[oldKey]
+    if (group) {
+      delete groupSubscriptions[oldKey]
+      group.groupId = newKey
+      groupSubscriptions[newKey] = group
+    }
+    
+    if (blacklistData.groups[oldKey]) {
+      blacklistData.groups[newKey] = blacklistData.groups[oldKey]
+      delete blacklistData.groups[oldKey]
+      saveBlacklistData()
+    }
+  }
+  
+  // 旧版本以群号为键，没有记录聊天平台的群在本群首次使用命令时迁移
+  function migrateLegacyGroup(session: Session) {
+    const key = getGroupKey(session)
+    const legacyKey = session.guildId
+    const legacyGroup = Object.hasOwn(groupSubscriptions, legacyKey) && !groupSubscriptions[key] && groupSubscriptions[legacyKey]
+    const legacyBlacklist = Object.hasOwn(blacklistData.groups, legacyKey) && !blacklistData.groups[key]
+    if (!legacyGroup && !legacyBlacklist) return
+    
+    renameGroup(legacyKey, key)
+    if (legacyGroup) {
+      // 保持原来的发送方式：由该平台的任意机器人发送到以群号为 ID 的频道
+      legacyGroup.botPlatform = session.platform
+      legacyGroup.channelId = legacyGroup.channelId || legacyKey
+      if (pendingChanges[legacyKey]) {
+        pendingChanges[key] = pendingChanges[legacyKey]
+        delete pendingChanges[legacyKey]
+      }
+      if (batchTimers[legacyKey]) {
+        batchTimers[key] = batchTimers[legacyKey]
+        delete batchTimers[legacyKey]
+      }
+      saveGroupData()
+    }
+    ctx.logger.info(`已将群 ${legacyKey} 的数据迁移为 ${key}`)
+  }
+  
+  // 绑定的账号是否就是该玩家：有UID时按UID比较，否则按名称比较
+  function isBoundPlayer(binding: AccountBinding, player: PlayerData): boolean {
+    if (binding.platform !== player.platform) return false
+    if (binding.uid && player.uid) return binding.uid === player.uid
+    return binding.playerName.toLowerCase() === player.playerName.toLowerCase()
+  }
+  
+  // 生成 @ 绑定了该玩家的用户的消息前缀，只提及与群所在聊天平台相同的用户
+  function getBindingMentions(group: GroupSubscription, player: PlayerData): string {
+    if (!group.botPlatform) return ''
+    
+    const prefix = `${group.botPlatform}:`
+    return Object.keys(bindingData)
+      .filter(key => key.startsWith(prefix) && isBoundPlayer(bindingData[key], player))
+      .map(key => h.at(key.slice(prefix.length)).toString())
+      .join(' ')
+  }
+  
+  // 查找玩家的黑名单条目：依次检查配置中的黑名单、全局黑名单和本群黑名单
+  function findBlacklistEntry(playerName: string, groupId?: string): BlacklistEntry | null {
+    if (isBlacklisted(playerName, config.blacklist)) {
+      return { playerName, addedAt: 0 }
+    }
+    
+    const key = playerName.toLowerCase()
+    return blacklistData.global[key] || (groupId && blacklistData.groups[groupId]?.[key]) || null
+  }
+  
+  // 生成黑名单拒绝提示，action 为被禁止的操作：query、watch 或 bind
+  function getBlacklistMessage(locale: string, playerName: string, entry: BlacklistEntry, action: 'query' | 'watch' | 'bind'): string {
+    let message = t(locale, `common.blacklisted.${action}`, { name: playerName })
+    if (entry.reason) {
+      message += '\n' + t(locale, 'common.blacklist-reason', { reason: entry.reason })
+    }
+    return message
+  }
+  
+  // 移除黑名单玩家的现有订阅，不指定群时移除所有群的订阅，返回移除的数量
+  function purgeSubscriptions(playerName: string, groupId?: string): number {
+    const lowerName = playerName.toLowerCase()
+    let count = 0
+    
+    for (const id of groupId ? [groupId] : Object.keys(groupSubscriptions)) {
+      const group = groupSubscriptions[id]
+      if (!group) continue
+      
+      for (const playerKey of Object.keys(group.players)) {
+        if (group.players[playerKey].playerName.toLowerCase() === lowerName) {
+          delete group.players[playerKey]
+          count++
+        }
+      }
+      
+      if (Object.keys(group.players).length === 0) {
+        delete groupSubscriptions[id]
+      }
+    }
+    
+    if (count > 0) {
+      saveGroupData()
+    }
+    return count
+  }
+  
+  // 检查订阅数量上限，超出时返回提示文本
+  function checkSubscriptionQuota(locale: string, groupId: string): string | null {
+    const groupCount = Object.keys(groupSubscriptions[groupId]?.players || {}).length
+    if (config.maxPlayersPerGroup && groupCount >= config.maxPlayersPerGroup) {
+      return t(locale, 'common.quota-group', { max: config.maxPlayersPerGroup })
+    }
+    
+    const totalCount = Object.values(groupSubscriptions)
+      .reduce((sum, group) => sum + Object.keys(group.players || {}).length, 0)
+    if (config.maxPlayersTotal && totalCount >= config.maxPlayersTotal) {
+      return t(locale, 'common.quota-total', { max: config.maxPlayersTotal })
+    }
+    
+    return null
+  }
+  
+  // 解析命令中的平台选项，未指定时使用默认平台
+  function resolvePlatform(platform?: string): Platform | null {
+    if (!platform) return config.defaultPlatform
+    return normalizePlatform(platform)
+  }
+  
+  // 保存群订阅数据的函数
+  // 使用数据库时异步保存，保存尚未开始时的多次调用合并为一次
+  let databaseSaving = Promise.resolve()
+  let databaseSaveQueued = false
+  function saveGroupData() {
+    if (!database) {
+      saveJsonFile(dataFile, groupSubscriptions, '群订阅数据')
+      return
+    }
+    
+    if (databaseSaveQueued) return
+    databaseSaveQueued = true
+    databaseSaving = databaseSaving.then(async () => {
+      databaseSaveQueued = false
+      await saveToDatabase()
+    }).catch(error => {
+      ctx.logger.error('保存群订阅数据失败:', error)
+    })
+  }
+  
+  // 保存分数历史的函数
+  function saveHistoryData() {
+    saveJsonFile(historyFile, scoreHistory, '分数历史')
+  }
+  
+  // 记录一次分数变化
+  // 同一玩家可能被多个群监控，与上一条记录的新分数相同时视为重复，不再记录
+  async function recordScoreChange(entry: ScoreHistoryEntry) {
+    const expireBefore = Date.now() - config.historyRetentionDays * 24 * 60 * 60 * 1000
+    
+    if (database) {
+      const [last] = await database.select('apex_score_history')
+        .where({ playerId: entry.playerId })
+        .orderBy('timestamp', 'desc')
+        .limit(1)
+        .execute()
+      if (last && last.newScore === entry.newScore) return
+      
+      await database.create('apex_score_history', entry)
+      await database.remove('apex_score_history', { timestamp: { $lt: expireBefore } })
+      return
+    }
+    
+    const entries = scoreHistory[entry.playerId] || []
+    const last = entries[entries.length - 1]
+    if (last && last.newScore === entry.newScore) return
+    
+    entries.push(entry)
+    scoreHistory[entry.playerId] = entries.filter(item => item.timestamp >= expireBefore)
+    saveHistoryData()
+  }
+  
+  // 获取指定时间之后的分数历史，按时间升序排列
+  async function getScoreHistory(playerId: string, since: number): Promise<ScoreHistoryEntry[]> {
+    if (database) {
+      return database.select('apex_score_history')
+        .where({ playerId, timestamp: { $gte: since } })
+        .orderBy('timestamp', 'asc')
+        .execute()
+    }
+    
+    return (scoreHistory[playerId] || []).filter(entry => entry.timestamp >= since)
+  }
+  
+  // 保存赛季归档的函数
+  function saveSeasonData() {
+    saveJsonFile(seasonFile, seasonArchive, '赛季归档')
+  }
+  
+  // 归档玩家的赛季最终段位，同一玩家同一赛季只归档一次，已归档时返回 false
+  async function archiveSeasonEntry(entry: SeasonArchiveEntry): Promise<boolean> {
+    if (database) {
+      const existing = await database.get('apex_season_archive', { playerId: entry.playerId, season: entry.season }, ['id'])
+      if (existing.length > 0) return false
+      
+      await database.create('apex_season_archive', entry)
+      return true
+    }
+    
+    const entries = seasonArchive[entry.season] || []
+    if (entries.some(item => item.playerId === entry.playerId)) return false
+    
+    entries.push(entry)
+    seasonArchive[entry.season] = entries
+    saveSeasonData()
+    return true
+  }
+  
+  // 获取这些玩家的赛季归档，按归档时间从新到旧排列
+  async function getSeasonArchive(playerIds: string[]): Promise<SeasonArchiveEntry[]> {
+    const entries = database
+      ? await database.get('apex_season_archive', { playerId: playerIds })
+      : Object.values(seasonArchive).flat().filter(entry => playerIds.includes(entry.playerId))
+    return entries.sort((a, b) => b.archivedAt - a.archivedAt)
+  }
+  
+  // 在所有群的订阅中查找指定玩家
+  function findWatchedPlayer(playerName: string, platform: Platform): PlayerData | undefined {
+    const playerKey = getPlayerKey(playerName, platform)
+    
+    for (const groupId in groupSubscriptions) {
+      const player = groupSubscriptions[groupId].players[playerKey]
+      if (player) return player
+    }
+  }
+  
+  // 根据玩家名称查找历史记录键：优先匹配已监控的玩家（可获得UID），其次匹配历史记录中的名称
+  async function findHistoryKey(playerName: string, platform: Platform): Promise<string> {
+    const lowerName = playerName.toLowerCase()
+    
+    const watched = findWatchedPlayer(playerName, platform)
+    if (watched) return getHistoryKey(watched)
+    
+    if (database) {
+      const entries = await database.get('apex_score_history', { platform }, ['playerId', 'playerName', 'timestamp'])
+      const entry = entries
+        .filter(item => item.playerName.toLowerCase() === lowerName)
+        .sort((a, b) => b.timestamp - a.timestamp)[0]
+      if (entry) return entry.playerId
+    } else {
+      for (const playerId in scoreHistory) {
+        const entries = scoreHistory[playerId]
+        const last = entries[entries.length - 1]
+        if (last && last.platform === platform && last.playerName.toLowerCase() === lowerName) {
+          return playerId
+        }
+      }
+    }
+    
+    return getPlayerKey(playerName, platform)
+  }
+  
+  // 保存缓存的函数
+  function saveCacheData() {
+    if (!config.persistCache) return
+    saveJsonFile(cacheFile, responseCache, '缓存', 0)
+  }
+  
+  // 带缓存的请求：命中缓存时直接返回，相同键的并发请求只发送一次
+  async function cachedRequest(key: string, request: () => Promise<any>): Promise<any> {
+    const cached = responseCache[key]
+    if (cached && cached.expires > Date.now()) {
+      ctx.logger.debug(`命中缓存: ${key}`)
+      return cached.data
+    }
+    
+    if (pendingRequests.has(key)) {
+      return pendingRequests.get(key)
+    }
+    
+    const promise = request().finally(() => pendingRequests.delete(key))
+    pendingRequests.set(key, promise)
+    return promise
+  }
+  
+  // 写入缓存，同一份数据可以以多个键（UID和名称）缓存
+  function setCachedResponse(keys: string[], data: any) {
+    if (!config.cacheTTL) return
+    
+    const now = Date.now()
+    for (const key in responseCache) {
+      if (responseCache[key].expires <= now) delete responseCache[key]
+    }
+    
+    const expires = now + config.cacheTTL * 1000
+    for (const key of keys) {
+      responseCache[key] = { data, expires }
+    }
+    saveCacheData()
+  }
+  
+  // 删除同一玩家的全部缓存响应，确保下次检测重新请求API
+  function evictCachedResponse(data: any) {
+    const global = data?.global
+    let evicted = false
+    for (const key in responseCache) {
+      const cached = responseCache[key].data
+      if (cached === data || (global?.uid && cached?.global?.uid === global.uid && cached.global.platform === global.platform)) {
+        delete responseCache[key]
+        evicted = true
+      }
+    }
+    if (evicted) saveCacheData()
+  }
+  
+  // 所有API请求共用的限速器
+  const rateLimiter = createRateLimiter(config.rateLimit, Math.max(1, Math.floor(config.rateLimit)))
+  const requestStats = { total: 0, rateLimited: 0 }
+  
+  // 带重试功能的API请求函数
+  async function apiRequestWithRetry(url: string, params: any, maxRetries: number = config.maxRetries): Promise<any> {
+    let lastError: any
+    let retryAfter = 0
+    
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        if (attempt > 0) {
+          const delay = Math.max(Math.pow(2, attempt) * 1000, retryAfter)
+          ctx.logger.info(`正在重试API请求 (尝试 ${attempt}/${maxRetries}) 延迟 ${delay}ms...`)
+          await new Promise(resolve => setTimeout(resolve, delay))
+        }
+        
+        await rateLimiter.acquire()
+        requestStats.total++
+        
+        const response = await axiosInstance.get(url, { params })
+        return response.data
+      } catch (error) {
+        lastError = error
+        
+        // 被限流时按 Retry-After 暂停所有请求
+        if (error.response?.status === 429) {
+          requestStats.rateLimited++
+          retryAfter = parseRetryAfter(error.response.headers?.['retry-after']) ?? 1000
+          rateLimiter.pause(retryAfter)
+          ctx.logger.warn(`API请求被限流，暂停 ${retryAfter}ms`)
+        }
+        
+        const isRetriableError = error.code === 'ECONNRESET' || 
+                                error.code === 'ETIMEDOUT' || 
+                                error.code === 'ECONNABORTED' ||
+                                (error.response && (error.response.status >= 500 || error.response.status === 429))
+        
+        if (isRetriableError && attempt < maxRetries) {
+          ctx.logger.warn(`API请求失败，错误: (${error.code || redactSecrets(String(error.message), secrets)})。正在重试...`)
+          continue
+        }
+        
+        throw toSafeApiError(error)
+      }
+    }
+    
+    throw toSafeApiError(lastError)
+  }
+  
+  // 数据源：默认请求 Apex Legends Status API，也可以使用本地模拟数据离线测试轮询和通知
+  const provider: StatsProvider = config.provider === 'mock'
+    ? createMockProvider(path.resolve(config.dataDir, config.mockFile))
+    : createBridgeProvider(config.apiBaseUrl, config.apiKey, apiRequestWithRetry)
+  if (config.provider === 'mock') {
+    const mockFile = path.resolve(config.dataDir, config.mockFile)
+    ctx.logger.info(`使用本地模拟数据源: ${mockFile}`)
+    if (!fs.existsSync(mockFile)) {
+      ctx.logger.warn(`模拟数据文件不存在: ${mockFile}，请检查 mockFile 配置`)
+    }
+  }
+  
+  // 记录群订阅所在的聊天平台、机器人和频道，在本群使用 apexrankwatch 时更新
+  function updateDeliveryTarget(group: GroupSubscription, session: Session) {
+    if (group.botPlatform === session.platform && group.selfId === session.selfId && group.channelId === session.channelId) return false
+    
+    group.botPlatform = session.platform
+    group.selfId = session.selfId
+    group.channelId = session.channelId
+    return true
+  }
+  
+  // 通过指定机器人向频道发送消息，未指定机器人时依次尝试同平台（或所有）机器人
+  async function sendChannelMessage(target: { botPlatform?: string, selfId?: string, channelId: string }, message: string): Promise<boolean> {
+    const bots = target.selfId
+      ? ctx.bots.filter(bot => bot.platform === target.botPlatform && bot.selfId === target.selfId)
+      : ctx.bots.filter(bot => !target.botPlatform || bot.platform === target.botPlatform)
+    
+    if (bots.length === 0) {
+      ctx.logger.warn(`发送失败: 未找到可用的机器人实例 (${target.botPlatform || '任意平台'}:${target.selfId || '任意机器人'})`)
+      return false
+    }
+    
+    for (const bot of bots) {
+      try {
+        await bot.sendMessage(target.channelId, message)
+        ctx.logger.info(`消息发送成功: ${bot.platform} 频道 ${target.channelId}`)
+        return true
+      } catch (error) {
+        ctx.logger.error(`机器人 ${bot.platform}:${bot.selfId} 发送消息失败:`, error)
+      }
+    }
+    
+    return false
+  }
+  
+  // 向群发送消息的函数
+  async function sendGroupMessage(groupId: string, message: string): Promise<boolean> {
+    const group = groupSubscriptions[groupId]
+    
+    const success = await sendChannelMessage({
+      botPlatform: group?.botPlatform,
+      selfId: group?.selfId,
+      channelId: group?.channelId || groupId
+    }, message)
+    
+    if (!success) {
+      ctx.logger.error(`所有机器人发送消息到群 ${groupId} 均失败`)
+    }
+    return success
+  }
+  
+  // 测试命令
+  ctx.command('apextest')
+    .action(async ({ session }) => {
+      ctx.logger.info('收到apextest命令')
+      const locale = getLocale(getGroupKey(session), session)
+      
+      if (session?.guildId) {
+        ctx.logger.info(`在群 ${session.guildId} 中执行测试命令`)
+        
+        const success = await sendChannelMessage({
+          botPlatform: session.platform,
+          selfId: session.selfId,
+          channelId: session.channelId
+        }, t(locale, 'test.message'))
+        if (success) {
+          return t(locale, 'test.sent')
+        } else {
+          return t(locale, 'test.send-failed')
+        }
+      }
+      
+      return t(locale, 'test.running')
+    })
+  
+  // 帮助命令
+  ctx.command('apexrankhelp')
+    .action(async ({ session }) => {
+      const locale = getLocale(getGroupKey(session), session)
+      let helpText = t(locale, 'help.body', {
+        digestTime: config.digestTime,
+        adminAuthority: config.adminAuthority,
+        defaultPlatform: config.defaultPlatform,
+        checkInterval: config.checkInterval,
+        minValidScore: config.minValidScore,
+        maxChange: config.anomalyMaxChange
+      })
+      
+      // 只有在黑名单中有条目时才添加黑名单信息
+      const configCount = (config.blacklist || '').split(',').filter(id => id.trim() !== '').length
+      const count = configCount + Object.keys(blacklistData.global).length
+      if (count > 0) {
+        helpText += '\n\n' + t(locale, 'help.blacklist', { count })
+      }
+      
+      return helpText
+    })
+  
+  // 查询玩家段位命令
+  ctx.command('apexrank [player:string]')
+    .option('platform', '-p <platform:string> 平台（PC/PS4/X1/SWITCH）')
+    .example('apexrank')
+    .example('apexrank moeneri')
+    .example('apexrank moeneri -p PS4')
+    .action(async ({ session, options }, playerName) => {
+      ctx.logger.info(`收到apexrank命令，参数：${playerName}`)
+      const locale = getLocale(getGroupKey(session), session)
+      
+      // 不提供玩家名称时查询自己绑定的账号
+      const binding = playerName ? undefined : bindingData[getBindingKey(session)]
+      if (!playerName && !binding) {
+        return t(locale, 'query.need-player')
+      }
+      if (binding) {
+        playerName = binding.playerName
+      }
+      
+      const platform = binding && !options.platform ? binding.platform : resolvePlatform(options.platform)
+      if (!platform) {
+        return t(locale, 'common.unknown-platform', { platform: options.platform })
+      }
+      
+      // 检查黑名单后再继续
+      const blacklistEntry = findBlacklistEntry(playerName, getGroupKey(session))
+      if (blacklistEntry) {
+        ctx.logger.warn(`阻止查询黑名单ID: ${playerName}`)
+        return getBlacklistMessage(locale, playerName, blacklistEntry, 'query')
+      }
+      
+      try {
+        const uid = binding?.platform === platform ? binding.uid : undefined
+        const playerData = await getPlayerStats(playerName, platform, uid)
+        
+        if (playerData.rankScore < config.minValidScore) {
+          return t(locale, 'common.below-min-score', { name: playerName, score: playerData.rankScore, minScore: config.minValidScore })
+        }
+        
+        return formatPlayerRankText(locale, playerData)
+      } catch (error) {
+        ctx.logger.error('API查询失败:', error)
+        return formatApiError(locale, error, playerName, platform)
+          || t(locale, 'common.query-failed', { message: error.message || t(locale, 'common.unknown-error') })
+      }
+    })
+  
+  // 添加监控命令
+  ctx.command('apexrankwatch [player:string]', { authority: config.watchAuthority })
+    .option('platform', '-p <platform:string> 平台（PC/PS4/X1/SWITCH）')
+    .example('apexrankwatch')
+    .example('apexrankwatch moeneri')
+    .example('apexrankwatch moeneri -p PS4')
+    .action(async ({ session, options }, playerName) => {
+      ctx.logger.info(`收到apexrankwatch命令，参数：${playerName}`)
+      const locale = getLocale(getGroupKey(session), session)
+      
+      // 不提供玩家名称时监控自己绑定的账号
+      const binding = playerName ? undefined : bindingData[getBindingKey(session)]
+      if (!playerName && !binding) {
+        return t(locale, 'watch.need-player')
+      }
+      if (binding) {
+        playerName = binding.playerName
+      }
+      
+      if (!session.guildId) {
+        return t(locale, 'common.group-only')
+      }
+      
+      const platform = binding && !options.platform ? binding.platform : resolvePlatform(options.platform)
+      if (!platform) {
+        return t(locale, 'common.unknown-platform', { platform: options.platform })
+      }
+      
+      // 检查黑名单后再继续
+      const blacklistEntry = findBlacklistEntry(playerName, getGroupKey(session))
+      if (blacklistEntry) {
+        ctx.logger.warn(`阻止监控黑名单ID: ${playerName}`)
+        return getBlacklistMessage(locale, playerName, blacklistEntry, 'watch')
+      }
+      
+      try {
+        const groupId = getGroupKey(session)
+        const playerKey = getPlayerKey(playerName, platform)
+        
+        // 先检查重复和数量上限，避免无谓的API请求；已暂停的监控重新添加时恢复
+        const watched = groupSubscriptions[groupId]?.players[playerKey]
+        if (watched && !watched.paused) {
+          // 重复添加时把通知目标改为当前频道
+          if (updateDeliveryTarget(groupSubscriptions[groupId], session)) {
+            saveGroupData()
+          }
+          return t(locale, 'watch.exists', { name: playerName, platform: platformNames[platform] })
+        }
+        
+        const quotaError = !watched && checkSubscriptionQuota(locale, groupId)
+        if (quotaError) {
+          return quotaError
+        }
+        
+        const playerData = await getPlayerStats(playerName, platform, watched?.uid || (binding?.platform === platform ? binding.uid : undefined))
+        
+        if (playerData.rankScore < config.minValidScore) {
+          return t(locale, 'common.below-min-score', { name: playerName, score: playerData.rankScore, minScore: config.minValidScore })
+        }
+        
+        // 暂停期间的分数变化不补发通知，以当前分数作为新的基准
+        if (watched) {
+          watched.paused = false
+          watched.rankScore = playerData.rankScore
+          watched.rankName = playerData.rankName
+          watched.rankDiv = playerData.rankDiv
+          watched.globalRankPercent = playerData.globalRankPercent
+          watched.season = playerData.rankedSeason || watched.season
+          watched.lastChecked = Date.now()
+          updateDeliveryTarget(groupSubscriptions[groupId], session)
+          saveGroupData()
+          
+          return t(locale, 'watch.resumed', { name: playerName, platform: platformNames[platform], rank: getRankDisplayText(locale, playerData) })
+        }
+        
+        if (!groupSubscriptions[groupId]) {
+          groupSubscriptions[groupId] = {
+            groupId,
+            players: {}
+          }
+        }
+        updateDeliveryTarget(groupSubscriptions[groupId], session)
+        
+        const uid = playerData.uid ? String(playerData.uid) : undefined
+        
+        // 同一UID可能以旧名字被添加过
+        const existing = uid && Object.values(groupSubscriptions[groupId].players)
+          .find(player => player.uid === uid && player.platform === platform)
+        if (existing) {
+          return t(locale, 'watch.exists-renamed', { name: existing.playerName })
+        }
+        
+        groupSubscriptions[groupId].players[playerKey] = {
+          playerName: playerName,
+          platform: platform,
+          uid: uid,
+          rankScore: playerData.rankScore,
+          rankName: playerData.rankName,
+          rankDiv: playerData.rankDiv,
+          globalRankPercent: playerData.globalRankPercent,
+          selectedLegend: playerData.selectedLegend,
+          legendStats: playerData.legendStats,
+          season: playerData.rankedSeason || undefined,
+          lastChecked: Date.now(),
+          addedBy: session.userId,
+          addedAt: Date.now()
+        }
+        
+        saveGroupData()
+        
+        // 尝试发送测试消息，但不强制要求成功
+        await sendGroupMessage(groupId, t(locale, 'watch.test-message', { name: playerName, platform: platformNames[platform] }))
+        
+        return t(locale, 'watch.added', { name: playerName, platform: platformNames[platform], rank: getRankDisplayText(locale, playerData) })
+      } catch (error) {
+        ctx.logger.error('添加群监控失败:', error)
+        return formatApiError(locale, error, playerName, platform)
+          || t(locale, 'watch.failed', { message: error.message || t(locale, 'common.unknown-error') })
+      }
+    })
+  
+  // 查看监控列表命令
+  ctx.command('apexranklist')
+    .action(async ({ session }) => {
+      ctx.logger.info(`收到apexranklist命令`)
+      const locale = getLocale(getGroupKey(session), session)
+      if (!session.guildId) {
+        return t(locale, 'common.group-only')
+      }
+      
+      const groupId = getGroupKey(session)
+      
+      if (!groupSubscriptions[groupId] || !groupSubscriptions[groupId].players || 
+          Object.keys(groupSubscriptions[groupId].players).length === 0) {
+        return t(locale, 'list.empty')
+      }
+      
+      const players = groupSubscriptions[groupId].players
+      
+      // 只有存在大师玩家时才需要猎杀者分数线
+      const hasMaster = Object.values(players).some(player => normalizeName(player.rankName) === 'Master')
+      const thresholds = hasMaster ? await getPredatorThresholds() : {}
+      
+      let response = t(locale, 'list.title') + '\n\n'
+      
+      Object.values(players).forEach((player: PlayerData, index) => {
+        response += t(locale, 'list.player', { index: index + 1, name: player.playerName }) + '\n'
+        response += t(locale, 'list.platform', { platform: platformNames[player.platform] || player.platform }) + '\n'
+        if (player.paused) {
+          response += t(locale, 'list.paused') + '\n'
+        }
+        response += t(locale, 'list.rank', { rank: formatRank(locale, player) }) + '\n'
+        response += t(locale, 'list.score', { score: player.rankScore }) + '\n'
+        
+        const threshold = thresholds[player.platform]
+        if (normalizeName(player.rankName) === 'Master' && threshold) {
+          response += t(locale, 'list.predator-gap', { gap: Math.max(0, threshold - player.rankScore), threshold }) + '\n'
+        }
+        
+        if (player.globalRankPercent && player.globalRankPercent !== '未知') {
+          response += t(locale, 'list.global-rank', { percent: player.globalRankPercent }) + '\n'
+        }
+        
+        if (player.selectedLegend) {
+          response += t(locale, 'list.legend', { legend: translateName(locale, player.selectedLegend) }) + '\n'
+          
+          // 显示英雄击杀排名信息（如果有）
+          if (player.legendStats?.kills?.globalPercent) {
+            response += t(locale, 'list.kills-rank', { percent: player.legendStats.kills.globalPercent }) + '\n'
+          }
+        }
+        
+        response += `\n`
+      })
+      
+      response += t(locale, 'list.footer', {
+        count: Object.keys(players).length,
+        interval: config.checkInterval,
+        minScore: config.minValidScore,
+        maxChange: config.anomalyMaxChange
+      })
+      
+      return response
+    })
+  
+  // 移除监控命令
+  ctx.command('apexrankremove <player:string>', { authority: config.removeAuthority })
+    .userFields(['authority'])
+    .option('platform', '-p <platform:string> 平台（PC/PS4/X1/SWITCH）')
+    .example('apexrankremove moeneri')
+    .example('apexrankremove moeneri -p PS4')
+    .action(async ({ session, options }, playerName) => {
+      ctx.logger.info(`收到apexrankremove命令，参数：${playerName}`)
+      const locale = getLocale(getGroupKey(session), session)
+      if (!playerName) {
+        return t(locale, 'remove.need-player')
+      }
+      
+      if (!session.guildId) {
+        return t(locale, 'common.group-only')
+      }
+      
+      const platform = resolvePlatform(options.platform)
+      if (!platform) {
+        return t(locale, 'common.unknown-platform', { platform: options.platform })
+      }
+      
+      const groupId = getGroupKey(session)
+      const playerKey = getPlayerKey(playerName, platform)
+      
+      if (!groupSubscriptions[groupId] || !groupSubscriptions[groupId].players) {
+        return t(locale, 'remove.not-watched', { name: playerName })
+      }
+      
+      const player = groupSubscriptions[groupId].players[playerKey]
+      if (!player) {
+        return t(locale, 'remove.not-watched-platform', { name: playerName, platform: platformNames[platform] })
+      }
+      
+      // 移除他人添加的监控需要更高权限
+      if (player.addedBy && player.addedBy !== session.userId && !hasAuthority(session, config.removeOthersAuthority)) {
+        return t(locale, 'remove.others', { authority: config.removeOthersAuthority })
+      }
+      
+      delete groupSubscriptions[groupId].players[playerKey]
+      
+      if (Object.keys(groupSubscriptions[groupId].players).length === 0) {
+        delete groupSubscriptions[groupId]
+      }
+      
+      saveGroupData()
+      
+      return t(locale, 'remove.removed', { name: playerName, platform: platformNames[platform] })
+    })
+  
+  // 查看分数历史命令
+  ctx.command('apexrankhistory <player:string>')
+    .option('days', '-d <days:posint> 查看最近几天的记录', { fallback: 1 })
+    .option('season', '-s <season:string> 查看指定赛季的记录（current / 22 / 22-1）')
+    .option('platform', '-p <platform:string> 平台（PC/PS4/X1/SWITCH）')
+    .example('apexrankhistory moeneri')
+    .example('apexrankhistory moeneri --days 7')
+    .example('apexrankhistory moeneri --season current')
+    .action(async ({ session, options }, playerName) => {
+      ctx.logger.info(`收到apexrankhistory命令，参数：${playerName}`)
+      const locale = getLocale(getGroupKey(session), session)
+      if (!playerName) {
+        return t(locale, 'history.need-player')
+      }
+      
+      const platform = resolvePlatform(options.platform)
+      if (!platform) {
+        return t(locale, 'common.unknown-platform', { platform: options.platform })
+      }
+      
+      // 按赛季查询时 current 表示玩家当前所在的赛季，需要玩家已被监控
+      let season = options.season
+      if (season === 'current') {
+        season = findWatchedPlayer(playerName, platform)?.season
+        if (!season) {
+          return t(locale, 'history.unknown-season', { name: playerName })
+        }
+      }
+      const rangeText = season
+        ? (parseSeason(season) ? formatSeason(locale, season) : t(locale, 'history.season-raw', { season }))
+        : t(locale, 'history.days', { days: options.days })
+      
+      // 从 N-1 天前的零点开始统计，--days 1 即为今天；按赛季查询时使用保留的全部历史
+      const start = new Date()
+      start.setHours(0, 0, 0, 0)
+      start.setDate(start.getDate() - options.days + 1)
+      
+      try {
+        const playerId = await findHistoryKey(playerName, platform)
+        const entries = season
+          ? (await getScoreHistory(playerId, 0)).filter(entry => matchesSeason(entry.season, season))
+          : await getScoreHistory(playerId, start.getTime())
+        
+        if (entries.length === 0) {
+          return t(locale, 'history.empty', { name: playerName, range: rangeText })
+        }
+        
+        // 按日期分组
+        const days: Record<string, ScoreHistoryEntry[]> = {}
+        for (const entry of entries) {
+          const day = formatDay(entry.timestamp)
+          if (!days[day]) days[day] = []
+          days[day].push(entry)
+        }
+        
+        const latestName = entries[entries.length - 1].playerName
+        let response = t(locale, 'history.title', { name: latestName, range: rangeText }) + '\n'
+        let total = 0
+        
+        for (const day in days) {
+          const net = days[day].reduce((sum, entry) => sum + entry.newScore - entry.oldScore, 0)
+          total += net
+          
+          response += '\n' + t(locale, 'history.day', { day, diff: formatDiff(net) }) + '\n'
+          for (const entry of days[day]) {
+            response += `   ${formatTime(entry.timestamp)} ${entry.oldScore} → ${entry.newScore} (${formatDiff(entry.newScore - entry.oldScore)}) ${formatRank(locale, entry)}`
+            if (entry.legend) {
+              response += ` ${translateName(locale, entry.legend)}`
+            }
+            response += `\n`
+          }
+        }
+        
+        response += '\n' + t(locale, 'history.total', { start: entries[0].oldScore, end: entries[entries.length - 1].newScore, diff: formatDiff(total) })
+        
+        return response
+      } catch (error) {
+        ctx.logger.error('查询分数历史失败:', error)
+        return t(locale, 'history.failed', { message: error.message || t(locale, 'common.unknown-error') })
+      }
+    })
+  
+  // 分数走势图命令
+  ctx.command('apexrankchart <player:string>')
+    .option('days', '-d <days:posint> 查看最近几天的走势', { fallback: 7 })
+    .option('platform', '-p <platform:string> 平台（PC/PS4/X1/SWITCH）')
+    .example('apexrankchart moeneri')
+    .example('apexrankchart moeneri --days 14')
+    .action(async ({ session, options }, playerName) => {
+      ctx.logger.info(`收到apexrankchart命令，参数：${playerName}`)
+      const locale = getLocale(getGroupKey(session), session)
+      if (!playerName) {
+        return t(locale, 'chart.need-player')
+      }
+      
+      const platform = resolvePlatform(options.platform)
+      if (!platform) {
+        return t(locale, 'common.unknown-platform', { platform: options.platform })
+      }
+      
+      const start = new Date()
+      start.setHours(0, 0, 0, 0)
+      start.setDate(start.getDate() - options.days + 1)
+      
+      const watched = findWatchedPlayer(playerName, platform)
+      let entries: ScoreHistoryEntry[]
+      try {
+        entries = await getScoreHistory(await findHistoryKey(playerName, platform), start.getTime())
+      } catch (error) {
+        ctx.logger.error('查询分数历史失败:', error)
+        return t(locale, 'history.failed', { message: error.message || t(locale, 'common.unknown-error') })
+      }
+      
+      // 第一条记录的原分数作为起点，之后每次变化一个点
+      const points: ChartPoint[] = []
+      if (entries.length > 0) {
+        points.push({ timestamp: entries[0].timestamp, score: entries[0].oldScore })
+        for (const entry of entries) {
+          points.push({ timestamp: entry.timestamp, score: entry.newScore })
+        }
+      }
+      
+      // 已监控的玩家补上当前分数，让折线延伸到现在
+      if (watched && points.length > 0) {
+        points.push({ timestamp: Date.now(), score: watched.rankScore })
+      }
+      
+      if (points.length < 2) {
+        return t(locale, 'chart.not-enough', { name: playerName, days: options.days })
+      }
+      
+      const displayName = entries[entries.length - 1].playerName
+      
+      try {
+        const first = points[0].score
+        const last = points[points.length - 1].score
+        const image = await renderRankChart({
+          title: t(locale, 'chart.title', { name: displayName, days: options.days }),
+          change: t(locale, 'chart.change', { first, last, diff: formatDiff(last - first) }),
+          tiers: Object.fromEntries(rankTierNames.map(name => [name, translateName(locale, name)]))
+        }, points)
+        await session.send(h.image(image, 'image/png'))
+        return
+      } catch (error) {
+        ctx.logger.warn('发送分数走势图失败，改为发送文字信息:', error)
+      }
+      
+      // 图片渲染或发送失败时退回文字信息
+      try {
+        const playerData = await getPlayerStats(displayName, platform, watched?.uid)
+        return formatPlayerRankText(locale, playerData)
+      } catch (error) {
+        ctx.logger.error('API查询失败:', error)
+        return formatApiError(locale, error, displayName, platform)
+          || t(locale, 'chart.failed', { message: error.message || t(locale, 'common.unknown-error') })
+      }
+    })
+  
+  // 玩家近7天的分数变化，既没有历史记录也未被监控时返回 null
+  async function getWeeklyChange(playerName: string, platform: Platform): Promise<number | null> {
+    const entries = await getScoreHistory(await findHistoryKey(playerName, platform), Date.now() - 7 * 24 * 60 * 60 * 1000)
+    if (entries.length === 0) {
+      return findWatchedPlayer(playerName, platform) ? 0 : null
+    }
+    return entries[entries.length - 1].newScore - entries[0].oldScore
+  }
+  
+  // 比较两个数值，返回更好的一方；higher 为 false 时数值越小越好（如排名百分比），无法比较时返回 undefined
+  function getLeader(a: number, b: number, higher = true): 0 | 1 | undefined {
+    if (a == null || b == null || isNaN(a) || isNaN(b) || a === b) return
+    return (a > b) === higher ? 0 : 1
+  }
+  
+  // 玩家对比命令
+  ctx.command('apexcompare <playerA:string> <playerB:string>')
+    .option('platform', '-p <platform:string> 平台（PC/PS4/X1/SWITCH）')
+    .option('image', '-i 以图片卡片发送')
+    .example('apexcompare moeneri hal')
+    .example('apexcompare moeneri hal -p PS4 -i')
+    .action(async ({ session, options }, playerA, playerB) => {
+      ctx.logger.info(`收到apexcompare命令，参数：${playerA} ${playerB}`)
+      const locale = getLocale(getGroupKey(session), session)
+      if (!playerA || !playerB) {
+        return t(locale, 'compare.need-players')
+      }
+      if (playerA.toLowerCase() === playerB.toLowerCase()) {
+        return t(locale, 'compare.same-player')
+      }
+      
+      const platform = resolvePlatform(options.platform)
+      if (!platform) {
+        return t(locale, 'common.unknown-platform', { platform: options.platform })
+      }
+      
+      for (const playerName of [playerA, playerB]) {
+        const blacklistEntry = findBlacklistEntry(playerName, getGroupKey(session))
+        if (blacklistEntry) {
+          ctx.logger.warn(`阻止查询黑名单ID: ${playerName}`)
+          return getBlacklistMessage(locale, playerName, blacklistEntry, 'query')
+        }
+      }
+      
+      const results = await Promise.allSettled([playerA, playerB].map(playerName => {
+        return getPlayerStats(playerName, platform, findWatchedPlayer(playerName, platform)?.uid)
+      }))
+      const failed = results.findIndex(result => result.status === 'rejected')
+      if (failed !== -1) {
+        const error = (results[failed] as PromiseRejectedResult).reason
+        ctx.logger.error('API查询失败:', error)
+        return formatApiError(locale, error, [playerA, playerB][failed], platform)
+          || t(locale, 'common.query-failed', { message: error.message || t(locale, 'common.unknown-error') })
+      }
+      const stats = results.map(result => (result as PromiseFulfilledResult<PlayerStats>).value)
+      
+      const [a, b] = stats
+      const names: [string, string] = [a.name || playerA, b.name || playerB]
+      
+      const invalid = stats.findIndex(playerData => playerData.rankScore < config.minValidScore)
+      if (invalid !== -1) {
+        return t(locale, 'common.below-min-score', { name: names[invalid], score: stats[invalid].rankScore, minScore: config.minValidScore })
+      }
+      
+      // 历史记录只包含被监控的玩家，查询失败时不影响对比
+      const changes = await Promise.all([playerA, playerB].map(playerName => getWeeklyChange(playerName, platform).catch(error => {
+        ctx.logger.warn(`查询玩家 ${playerName} 分数历史失败:`, error)
+        return null
+      })))
+      
+      const none = t(locale, 'compare.none')
+      const percent = (value: string) => value && value !== '未知' ? t(locale, 'compare.percent', { percent: value }) : none
+      const killsPercent = (playerData: PlayerStats) => playerData.legendStats?.kills?.globalPercent
+      
+      const rows: (CompareRow & { icon: string })[] = [{
+        icon: '🏆',
+        label: 'rank',
+        values: [formatRank(locale, a), formatRank(locale, b)],
+        leader: getLeader(getTierIndex(a.rankName), getTierIndex(b.rankName))
+      }, {
+        icon: '🔢',
+        label: 'score',
+        values: [String(a.rankScore), String(b.rankScore)],
+        leader: getLeader(a.rankScore, b.rankScore)
+      }, {
+        icon: '🌎',
+        label: 'global-rank',
+        values: [percent(a.globalRankPercent), percent(b.globalRankPercent)],
+        leader: getLeader(Number(a.globalRankPercent), Number(b.globalRankPercent), false)
+      }, {
+        icon: '👑',
+        label: 'level',
+        values: [String(a.level ?? none), String(b.level ?? none)],
+        leader: getLeader(a.level, b.level)
+      }, {
+        icon: '🎮',
+        label: 'legend',
+        values: [translateName(locale, a.selectedLegend) || none, translateName(locale, b.selectedLegend) || none]
+      }, {
+        icon: '📊',
+        label: 'kills-rank',
+        values: [percent(killsPercent(a)), percent(killsPercent(b))],
+        leader: getLeader(Number(killsPercent(a)), Number(killsPercent(b)), false)
+      }, {
+        icon: '📈',
+        label: 'week',
+        values: changes.map(change => change === null ? t(locale, 'compare.no-history') : formatDiff(change)) as [string, string],
+        leader: getLeader(changes[0], changes[1])
+      }]
+      for (const row of rows) {
+        row.label = t(locale, `compare.labels.${row.label}`)
+      }
+      
+      if (options.image) {
+        try {
+          const image = await renderCompareCard(names, rows, { vs: t(locale, 'compare.vs') })
+          await session.send(h.image(image, 'image/png'))
+          return
+        } catch (error) {
+          ctx.logger.warn('发送对比卡片失败，改为发送文字信息:', error)
+        }
+      }
+      
+      let message = t(locale, 'compare.title', { a: names[0], b: names[1] })
+      for (const { icon, label, values } of rows) {
+        message += '\n' + t(locale, 'compare.row', { icon, label, a: values[0], b: values[1] })
+      }
+      
+      const diff = a.rankScore - b.rankScore
+      message += '\n\n' + (diff === 0
+        ? t(locale, 'compare.tie')
+        : t(locale, 'compare.leader', { name: names[diff > 0 ? 0 : 1], diff: Math.abs(diff) }))
+      
+      return message
+    })
+  
+  // 在玩家的英雄数据中查找英雄，支持英文名和当前语言的名称（不区分大小写）
+  function findLegend(locale: string, allLegendStats: Record<string, LegendStats>, query: string): string | undefined {
+    const lowerQuery = normalizeName(query).toLowerCase()
+    return Object.keys(allLegendStats).find(legend => {
+      return legend.toLowerCase() === lowerQuery || translateName(locale, legend).toLowerCase() === lowerQuery
+    })
+  }
+  
+  // 英雄数据命令
+  ctx.command('apexlegend <player:string> [legend:string]')
+    .option('tracker', '-t <tracker:string> 排序使用的追踪器（kills/damage/wins）', { fallback: 'kills' })
+    .option('count', '-n <count:posint> 显示的英雄数量', { fallback: 5 })
+    .option('platform', '-p <platform:string> 平台（PC/PS4/X1/SWITCH）')
+    .example('apexlegend moeneri')
+    .example('apexlegend moeneri -t damage')
+    .example('apexlegend moeneri Wraith')
+    .action(async ({ session, options }, playerName, legendName) => {
+      ctx.logger.info(`收到apexlegend命令，参数：${playerName} ${legendName || ''}`)
+      const locale = getLocale(getGroupKey(session), session)
+      if (!playerName) {
+        return t(locale, 'legend.need-player')
+      }
+      
+      const category = options.tracker as TrackerCategory
+      if (!trackerCategories.includes(category)) {
+        return t(locale, 'legend.unknown-tracker', { tracker: options.tracker, available: trackerCategories.join(' / ') })
+      }
+      
+      const platform = resolvePlatform(options.platform)
+      if (!platform) {
+        return t(locale, 'common.unknown-platform', { platform: options.platform })
+      }
+      
+      const blacklistEntry = findBlacklistEntry(playerName, getGroupKey(session))
+      if (blacklistEntry) {
+        ctx.logger.warn(`阻止查询黑名单ID: ${playerName}`)
+        return getBlacklistMessage(locale, playerName, blacklistEntry, 'query')
+      }
+      
+      let playerData: PlayerStats
+      try {
+        playerData = await getPlayerStats(playerName, platform, findWatchedPlayer(playerName, platform)?.uid)
+      } catch (error) {
+        ctx.logger.error('API查询失败:', error)
+        return formatApiError(locale, error, playerName, platform)
+          || t(locale, 'common.query-failed', { message: error.message || t(locale, 'common.unknown-error') })
+      }
+      
+      const name = playerData.name || playerName
+      const allLegendStats = playerData.allLegendStats
+      const withPercent = (value: number, globalPercent?: string) => {
+        return globalPercent ? String(value) + t(locale, 'legend.percent', { percent: globalPercent }) : String(value)
+      }
+      
+      if (Object.keys(allLegendStats).length === 0) {
+        return t(locale, 'legend.empty', { name })
+      }
+      
+      // 指定英雄时列出该英雄的全部追踪器
+      if (legendName) {
+        const legend = findLegend(locale, allLegendStats, legendName)
+        if (!legend) {
+          return t(locale, 'legend.no-legend', { name, legend: legendName })
+        }
+        
+        let message = t(locale, 'legend.detail-title', { name, legend: translateName(locale, legend) })
+        for (const tracker of allLegendStats[legend].trackers) {
+          message += '\n' + t(locale, 'legend.tracker', {
+            tracker: translateName(locale, tracker.name),
+            value: withPercent(tracker.value, tracker.globalPercent)
+          })
+        }
+        return message
+      }
+      
+      // 未指定英雄时按追踪器数值列出前几名英雄
+      const ranked = Object.entries(allLegendStats)
+        .filter(([, stats]) => stats[category])
+        .sort(([, a], [, b]) => b[category].value - a[category].value)
+        .slice(0, options.count)
+      
+      const tracker = translateName(locale, category)
+      if (ranked.length === 0) {
+        return t(locale, 'legend.no-tracker', { name, tracker })
+      }
+      
+      let message = t(locale, 'legend.title', { name, tracker })
+      ranked.forEach(([legend, stats], index) => {
+        message += '\n' + t(locale, 'legend.entry', {
+          index: index + 1,
+          legend: translateName(locale, legend),
+          value: withPercent(stats[category].value, stats[category].globalPercent)
+        })
+      })
+      return message
+    })
+  
+  // 生成群排行榜文本
+  async function buildLeaderboard(groupId: string, window: BoardWindow): Promise<string> {
+    const locale = getLocale(groupId)
+    const players = Object.values(groupSubscriptions[groupId]?.players || {})
+    if (players.length === 0) {
+      return t(locale, 'list.empty')
+    }
+    
+    // 统计起点：今日为今天零点，近7天为7天前；本赛季使用保留的全部历史中玩家当前赛季的记录
+    let since = 0
+    if (window === 'today') {
+      const start = new Date()
+      start.setHours(0, 0, 0, 0)
+      since = start.getTime()
+    } else if (window === 'week') {
+      since = Date.now() - 7 * 24 * 60 * 60 * 1000
+    }
+    
+    const rows = await Promise.all(players.map(async player => {
+      const entries = (await getScoreHistory(getHistoryKey(player), since))
+        .filter(entry => window !== 'season' || !player.season || entry.season === player.season)
+      const change = entries.reduce((sum, entry) => sum + entry.newScore - entry.oldScore, 0)
+      return { player, change }
+    }))
+    
+    rows.sort((a, b) => b.player.rankScore - a.player.rankScore)
+    
+    const windowName = t(locale, `board.windows.${window}`)
+    const medals = ['🥇', '🥈', '🥉']
+    let response = t(locale, 'board.title', { window: windowName }) + '\n\n'
+    
+    rows.forEach(({ player, change }, index) => {
+      response += t(locale, 'board.entry', {
+        medal: medals[index] || '  ',
+        index: index + 1,
+        name: player.playerName,
+        rank: formatRank(locale, player),
+        score: player.rankScore
+      })
+      if (change !== 0) {
+        response += ` (${formatDiff(change)})`
+      }
+      response += `\n`
+    })
+    
+    const climber = rows.reduce((best, row) => row.change > best.change ? row : best, rows[0])
+    const loser = rows.reduce((worst, row) => row.change < worst.change ? row : worst, rows[0])
+    
+    if (climber.change > 0) {
+      response += '\n' + t(locale, 'board.climber', { name: climber.player.playerName, diff: formatDiff(climber.change) })
+    }
+    if (loser.change < 0) {
+      response += '\n' + t(locale, 'board.loser', { name: loser.player.playerName, diff: formatDiff(loser.change) })
+    }
+    if (climber.change <= 0 && loser.change >= 0) {
+      response += '\n' + t(locale, 'board.no-change', { window: windowName })
+    }
+    
+    return response.trimEnd()
+  }
+  
+  // 群排行榜命令
+  ctx.command('apexrankboard [window:string]')
+    .example('apexrankboard')
+    .example('apexrankboard week')
+    .example('apexrankboard season')
+    .action(async ({ session }, windowName) => {
+      ctx.logger.info(`收到apexrankboard命令，参数：${windowName}`)
+      const locale = getLocale(getGroupKey(session), session)
+      if (!session.guildId) {
+        return t(locale, 'common.group-only')
+      }
+      
+      const window = !windowName ? 'today'
+        : Object.hasOwn(boardWindowAliases, windowName.toLowerCase()) ? boardWindowAliases[windowName.toLowerCase()] : null
+      if (!window) {
+        return t(locale, 'board.unknown-window', { window: windowName })
+      }
+      
+      try {
+        return await buildLeaderboard(getGroupKey(session), window)
+      } catch (error) {
+        ctx.logger.error('生成排行榜失败:', error)
+        return t(locale, 'board.failed', { message: error.message || t(locale, 'common.unknown-error') })
+      }
+    })
+  
+  // 赛季归档命令：查看本群玩家在已结束赛季的最终段位
+  ctx.command('apexrankseason [season:string]')
+    .example('apexrankseason')
+    .example('apexrankseason 22')
+    .example('apexrankseason 22-1')
+    .action(async ({ session }, query) => {
+      ctx.logger.info(`收到apexrankseason命令，参数：${query}`)
+      const locale = getLocale(getGroupKey(session), session)
+      if (!session.guildId) {
+        return t(locale, 'common.group-only')
+      }
+      
+      const players = Object.values(groupSubscriptions[getGroupKey(session)]?.players || {})
+      
+      let entries: SeasonArchiveEntry[]
+      try {
+        entries = await getSeasonArchive(players.map(player => getHistoryKey(player)))
+      } catch (error) {
+        ctx.logger.error('查询赛季归档失败:', error)
+        return t(locale, 'season.failed', { message: error.message || t(locale, 'common.unknown-error') })
+      }
+      
+      if (entries.length === 0) {
+        return t(locale, 'season.empty')
+      }
+      
+      // 归档按时间从新到旧排列，未指定赛季时显示最近结束的赛季
+      const seasons = [...new Set(entries.map(entry => entry.season))]
+      const season = query ? seasons.find(item => matchesSeason(item, query)) : seasons[0]
+      const available = t(locale, 'season.available', {
+        seasons: seasons.map(item => formatSeason(locale, item)).join(t(locale, 'separator'))
+      })
+      
+      if (!season) {
+        return t(locale, 'season.not-found', { season: query }) + '\n' + available
+      }
+      
+      let response = t(locale, 'season.archive-title', { season: formatSeason(locale, season) }) + '\n\n'
+      response += formatSeasonStandings(locale, entries.filter(entry => entry.season === season)) + '\n\n'
+      
+      const current = players.find(player => player.season)?.season
+      if (current) {
+        response += t(locale, 'season.current', { season: formatSeason(locale, current) }) + '\n'
+      }
+      response += available
+      
+      return response
+    })
+  
+  // 汇总模式下各群待发送的变化，以及已安排的发送定时器
+  const pendingChanges: Record<string, PendingChange[]> = {}
+  const batchTimers: Record<string, () => void> = {}
+  
+  // 按群的通知模式投递分数变化通知，urgent 为大段位变化，任何模式下都立即发送
+  async function deliverScoreChange(group: GroupSubscription, change: PendingChange, message: string, urgent = false) {
+    const mode = group.notifyMode || 'realtime'
+    
+    if (mode === 'realtime' || urgent) {
+      await sendGroupMessage(group.groupId, message)
+      return
+    }
+    
+    // 每日摘要直接从分数历史生成，这里无需处理
+    if (mode === 'digest') return
+    
+    if (!pendingChanges[group.groupId]) pendingChanges[group.groupId] = []
+    pendingChanges[group.groupId].push(change)
+    
+    if (!batchTimers[group.groupId]) {
+      const minutes = group.batchMinutes || config.defaultBatchMinutes
+      batchTimers[group.groupId] = ctx.setTimeout(() => {
+        delete batchTimers[group.groupId]
+        flushPendingChanges(group.groupId).catch(error => {
+          ctx.logger.error(`发送群 ${group.groupId} 汇总通知失败:`, error)
+        })
+      }, minutes * 60 * 1000)
+    }
+  }
+  
+  // 发送汇总通知：同一玩家的多次变化合并为一行
+  async function flushPendingChanges(groupId: string) {
+    const changes = pendingChanges[groupId]
+    delete pendingChanges[groupId]
+    if (!changes || changes.length === 0) return
+    
+    const merged: Record<string, { first: PendingChange, last: PendingChange, count: number }> = {}
+    for (const change of changes) {
+      const key = change.playerName.toLowerCase()
+      if (!merged[key]) {
+        merged[key] = { first: change, last: change, count: 0 }
+      }
+      merged[key].last = change
+      merged[key].count++
+    }
+    
+    const locale = getLocale(groupId)
+    let message = t(locale, 'notify.batch.title') + '\n'
+    message += t(locale, 'notify.batch.period', {
+      day: formatDay(changes[0].timestamp),
+      start: formatTime(changes[0].timestamp),
+      end: formatTime(changes[changes.length - 1].timestamp)
+    }) + '\n'
+    
+    for (const { first, last, count } of Object.values(merged)) {
+      message += '\n' + t(locale, 'notify.batch.player', { name: last.playerName }) + '\n'
+      message += t(locale, 'notify.batch.score', { start: first.oldScore, end: last.newScore, diff: formatDiff(last.newScore - first.oldScore), count }) + '\n'
+      message += t(locale, 'notify.batch.rank', { rank: formatRank(locale, last) })
+    }
+    
+    await sendGroupMessage(groupId, message)
+  }
+  
+  // 生成每日摘要：列出每个玩家的起止分数、推测场次和净变化
+  async function buildDigest(group: GroupSubscription, since: number): Promise<string | null> {
+    const rows = await Promise.all(Object.values(group.players).map(async player => {
+      const entries = await getScoreHistory(getHistoryKey(player), since)
+      return { player, entries }
+    }))
+    
+    if (rows.every(row => row.entries.length === 0)) return null
+    
+    const locale = getLocale(group.groupId)
+    let message = t(locale, 'notify.digest.title', { day: formatDay(Date.now()) }) + '\n'
+    
+    for (const { player, entries } of rows) {
+      message += '\n' + t(locale, 'notify.digest.player', { name: player.playerName }) + '\n'
+      if (entries.length === 0) {
+        message += t(locale, 'notify.digest.no-change', { score: player.rankScore })
+        continue
+      }
+      
+      const start = entries[0].oldScore
+      const end = entries[entries.length - 1].newScore
+      message += t(locale, 'notify.digest.score', { start, end, diff: formatDiff(end - start) }) + '\n'
+      message += t(locale, 'notify.digest.matches', { count: entries.length })
+    }
+    
+    return message
+  }
+  
+  // 解析每日摘要发送时间
+  function parseDigestTime(): [number, number] {
+    const [hour, minute] = config.digestTime.split(':').map(Number)
+    return [hour, minute]
+  }
+  
+  // 每日摘要：每分钟检查一次是否到达发送时间
+  let lastDigest = ''
+  ctx.setInterval(async () => {
+    const now = new Date()
+    const [hour, minute] = parseDigestTime()
+    if (now.getHours() !== hour || now.getMinutes() !== minute) return
+    
+    const today = formatDay(now.getTime())
+    if (lastDigest === today) return
+    lastDigest = today
+    
+    const since = now.getTime() - 24 * 60 * 60 * 1000
+    for (const groupId in groupSubscriptions) {
+      const group = groupSubscriptions[groupId]
+      if (group.notifyMode !== 'digest') continue
+      
+      try {
+        const digest = await buildDigest(group, since)
+        if (digest) {
+          await sendGroupMessage(groupId, digest)
+        }
+      } catch (error) {
+        ctx.logger.error(`发送群 ${groupId} 每日摘要失败:`, error)
+      }
+    }
+  }, 60 * 1000)
+  
+  // 切换通知模式命令
+  ctx.command('apexrankmode [mode:string]', { authority: config.settingsAuthority })
+    .option('interval', '-i <minutes:posint> 汇总通知的间隔（分钟）')
+    .example('apexrankmode')
+    .example('apexrankmode batched -i 15')
+    .example('apexrankmode digest')
+    .action(async ({ session, options }, mode) => {
+      ctx.logger.info(`收到apexrankmode命令，参数：${mode}`)
+      const locale = getLocale(getGroupKey(session), session)
+      if (!session.guildId) {
+        return t(locale, 'common.group-only')
+      }
+      
+      const groupId = getGroupKey(session)
+      const group = groupSubscriptions[groupId]
+      
+      if (!mode) {
+        const current = group?.notifyMode || 'realtime'
+        let response = t(locale, 'mode.current', { name: t(locale, `mode.names.${current}`), mode: current })
+        if (current === 'batched') {
+          response += '\n' + t(locale, 'mode.batch-interval', { minutes: group.batchMinutes || config.defaultBatchMinutes })
+        } else if (current === 'digest') {
+          response += '\n' + t(locale, 'mode.digest-time', { time: config.digestTime })
+        }
+        return response
+      }
+      
+      if (!notifyModes.includes(mode as NotifyMode)) {
+        return t(locale, 'mode.unknown', { mode })
+      }
+      
+      if (!group) {
+        return t(locale, 'common.no-subscriptions')
+      }
+      
+      // 离开汇总模式时立即发送已积累的变化
+      if (group.notifyMode === 'batched' && mode !== 'batched') {
+        batchTimers[groupId]?.()
+        delete batchTimers[groupId]
+        await flushPendingChanges(groupId)
+      }
+      
+      group.notifyMode = mode as NotifyMode
+      if (mode === 'batched') {
+        group.batchMinutes = options.interval || group.batchMinutes || config.defaultBatchMinutes
+      }
+      saveGroupData()
+      
+      const name = t(locale, `mode.names.${mode}`)
+      if (mode === 'batched') {
+        return t(locale, 'mode.set-batched', { name, minutes: group.batchMinutes })
+      } else if (mode === 'digest') {
+        return t(locale, 'mode.set-digest', { name, time: config.digestTime })
+      }
+      return t(locale, 'mode.set-realtime', { name })
     })
   
-  // 帮助命令
-  ctx.command('apexrankhelp')
-    .action(async () => {
-      let helpText = `📋 Apex 段位监控插件使用帮助\n\n`
+  // 设置通知过滤规则命令
+  ctx.command('apexrankfilter [filter:string]', { authority: config.settingsAuthority })
+    .option('minDiff', '-m <diff:natural> 普通分数变化的最小通知幅度')
+    .example('apexrankfilter')
+    .example('apexrankfilter tier')
+    .example('apexrankfilter all -m 50')
+    .action(async ({ session, options }, filter) => {
+      ctx.logger.info(`收到apexrankfilter命令，参数：${filter}`)
+      const locale = getLocale(getGroupKey(session), session)
+      if (!session.guildId) {
+        return t(locale, 'common.group-only')
+      }
       
-      helpText += `1️⃣ 查询玩家段位：\n`
-      helpText += `   命令：/apexrank <玩家名称>\n`
-      helpText += `   示例：/apexrank moeneri\n`
-      helpText += `   说明：查询指定玩家的段位、分数和状态信息\n\n`
+      const group = groupSubscriptions[getGroupKey(session)]
       
-      helpText += `2️⃣ 添加群监控：\n`
-      helpText += `   命令：/apexrankwatch <玩家名称>\n`
-      helpText += `   示例：/apexrankwatch moeneri\n`
-      helpText += `   说明：添加对指定玩家的段位变化监控，当段位分数变化时会在群内通知\n\n`
+      if (!filter && options.minDiff === undefined) {
+        const current = group?.notifyFilter || 'all'
+        let response = t(locale, 'filter.current', { name: t(locale, `filter.names.${current}`), filter: current })
+        if (current === 'all') {
+          response += '\n' + t(locale, 'filter.min-diff', { diff: group?.minDiff || 0 })
+        }
+        response += '\n' + t(locale, 'filter.always')
+        return response
+      }
+      
+      if (filter && !notifyFilters.includes(filter as NotifyFilter)) {
+        return t(locale, 'filter.unknown', { filter })
+      }
       
-      helpText += `3️⃣ 查看群监控列表：\n`
-      helpText += `   命令：/apexranklist\n`
-      helpText += `   说明：查看当前群内已添加监控的玩家列表\n\n`
+      if (!group) {
+        return t(locale, 'common.no-subscriptions')
+      }
+      
+      if (filter) {
+        group.notifyFilter = filter as NotifyFilter
+      }
+      if (options.minDiff !== undefined) {
+        group.minDiff = options.minDiff
+      }
+      saveGroupData()
       
-      helpText += `4️⃣ 移除群监控：\n`
-      helpText += `   命令：/apexrankremove <玩家名称>\n`
-      helpText += `   示例：/apexrankremove moeneri\n`
-      helpText += `   说明：移除对指定玩家的段位监控\n\n`
+      const current = group.notifyFilter || 'all'
+      if (current === 'all' && group.minDiff) {
+        return t(locale, 'filter.set-min-diff', { name: t(locale, `filter.names.${current}`), diff: group.minDiff })
+      }
+      return t(locale, 'filter.set', { name: t(locale, `filter.names.${current}`) })
+    })
+  
+  // 上线通知开关命令
+  ctx.command('apexrankonline [value:string]', { authority: config.settingsAuthority })
+    .example('apexrankonline on')
+    .example('apexrankonline off')
+    .action(async ({ session }, value) => {
+      ctx.logger.info(`收到apexrankonline命令，参数：${value}`)
+      const locale = getLocale(getGroupKey(session), session)
+      if (!session.guildId) {
+        return t(locale, 'common.group-only')
+      }
       
-      helpText += `5️⃣ 测试插件：\n`
-      helpText += `   命令：/apextest\n`
-      helpText += `   说明：测试插件是否正常工作及消息发送\n\n`
+      const group = groupSubscriptions[getGroupKey(session)]
       
-      helpText += `📝 参数说明：\n`
-      helpText += `   <玩家名称>：Apex Legends 游戏中的玩家ID\n\n`
+      if (!value) {
+        return t(locale, group?.onlineNotify ? 'online.status-on' : 'online.status-off')
+      }
       
-      helpText += `⏱️ 监控说明：\n`
-      helpText += `   系统会每 ${config.checkInterval} 分钟检查一次玩家段位变化\n`
-      helpText += `   当玩家段位分数发生变化时，会在群内发送通知\n`
-      helpText += `   分数异常判断：仅当高分(>1000)掉到接近0分(<10)时才判定为异常\n`
-      helpText += `   最小有效分数：${config.minValidScore} 分以下的分数将被视为无效\n`
+      if (value !== 'on' && value !== 'off') {
+        return t(locale, 'online.unknown', { value })
+      }
       
-      // 只有在黑名单中有条目时才添加黑名单信息
-      if (config.blacklist && config.blacklist.trim() !== '') {
-        const count = config.blacklist.split(',').filter(id => id.trim() !== '').length
-        helpText += `\n⚠️ 黑名单说明：\n`
-        helpText += `   当前已设置 ${count} 个黑名单ID\n`
-        helpText += `   黑名单ID无法被查询或监控\n`
+      if (!group) {
+        return t(locale, 'common.no-subscriptions')
       }
       
-      return helpText
+      group.onlineNotify = value === 'on'
+      saveGroupData()
+      
+      return t(locale, group.onlineNotify ? 'online.enabled' : 'online.disabled')
     })
   
-  // 查询玩家段位命令
-  ctx.command('apexrank <player:string>')
-    .example('apexrank moeneri')
-    .action(async ({ session }, playerName) => {
-      ctx.logger.info(`收到apexrank命令，参数：${playerName}`)
+  // 消息语言命令
+  ctx.command('apexranklocale [locale:string]', { authority: config.settingsAuthority })
+    .example('apexranklocale en-US')
+    .example('apexranklocale default')
+    .action(async ({ session }, value) => {
+      ctx.logger.info(`收到apexranklocale命令，参数：${value}`)
+      const locale = getLocale(getGroupKey(session), session)
+      if (!session.guildId) {
+        return t(locale, 'common.group-only')
+      }
+      
+      const group = groupSubscriptions[getGroupKey(session)]
+      const available = [...Object.keys(localeData), 'default'].join(' / ')
+      
+      if (!value) {
+        return t(locale, 'locale.current', { locale: group?.locale || t(locale, 'locale.default'), available })
+      }
+      
+      if (value !== 'default' && !Object.hasOwn(localeData, value)) {
+        return t(locale, 'locale.unknown', { locale: value, available })
+      }
+      
+      if (!group) {
+        return t(locale, 'common.no-subscriptions')
+      }
+      
+      if (value === 'default') {
+        // 置空而不是删除，数据库同步时才会清除已保存的语言
+        group.locale = null
+        saveGroupData()
+        return t(getLocale(getGroupKey(session), session), 'locale.reset')
+      }
+      
+      group.locale = value
+      saveGroupData()
+      
+      return t(value, 'locale.set', { locale: value })
+    })
+  
+  // 每周定时发送排行榜，每分钟检查一次是否到达发送时间
+  let lastWeeklyBoard = ''
+  if (config.weeklyBoard) {
+    ctx.setInterval(async () => {
+      const now = new Date()
+      if (now.getDay() !== config.weeklyBoardDay || now.getHours() !== config.weeklyBoardHour) return
+      
+      const today = formatDay(now.getTime())
+      if (lastWeeklyBoard === today) return
+      lastWeeklyBoard = today
+      
+      for (const groupId in groupSubscriptions) {
+        try {
+          const board = await buildLeaderboard(groupId, 'week')
+          await sendGroupMessage(groupId, t(getLocale(groupId), 'board.weekly') + '\n' + board)
+        } catch (error) {
+          ctx.logger.error(`发送群 ${groupId} 每周排行榜失败:`, error)
+        }
+      }
+    }, 60 * 1000)
+  }
+  
+  // 绑定账号命令：绑定后查询和监控时可省略玩家名称，分数变化通知会 @ 绑定的用户
+  ctx.command('apexbind <player:string> [platform:string]')
+    .example('apexbind moeneri')
+    .example('apexbind moeneri PS4')
+    .action(async ({ session }, playerName, platformName) => {
+      ctx.logger.info(`收到apexbind命令，参数：${playerName} ${platformName || ''}`)
+      const locale = getLocale(getGroupKey(session), session)
       if (!playerName) {
-        return '请提供玩家名称，例如: /apexrank moeneri'
+        return t(locale, 'bind.need-player')
       }
       
-      // 检查黑名单后再继续
-      if (isBlacklisted(playerName, config.blacklist)) {
-        ctx.logger.warn(`阻止查询黑名单ID: ${playerName}`)
-        return `⛔ 该ID（${playerName}）已被管理员加入黑名单，禁止查询`
+      const platform = resolvePlatform(platformName)
+      if (!platform) {
+        return t(locale, 'common.unknown-platform', { platform: platformName })
+      }
+      
+      const blacklistEntry = findBlacklistEntry(playerName, getGroupKey(session))
+      if (blacklistEntry) {
+        ctx.logger.warn(`阻止绑定黑名单ID: ${playerName}`)
+        return getBlacklistMessage(locale, playerName, blacklistEntry, 'bind')
       }
       
       try {
-        const playerData = await getPlayerStats(playerName)
+        // 先查询一次，确认玩家存在并记录UID，之后玩家改名也能继续使用
+        const playerData = await getPlayerStats(playerName, platform)
         
-        if (playerData.rankScore < config.minValidScore) {
-          return `查询到 ${playerName} 的分数为 ${playerData.rankScore}，低于最小有效分数 ${config.minValidScore}，可能是API错误，请稍后再试`
+        bindingData[getBindingKey(session)] = {
+          playerName: playerData.name || playerName,
+          platform,
+          uid: playerData.uid ? String(playerData.uid) : undefined,
+          boundAt: Date.now()
         }
+        saveBindingData()
         
-        return formatPlayerRankText(playerData)
+        ctx.logger.info(`用户 ${getBindingKey(session)} 绑定了 ${playerName}（${platform}）`)
+        return t(locale, 'bind.bound', { name: playerData.name || playerName, platform: platformNames[platform], rank: getRankDisplayText(locale, playerData) })
       } catch (error) {
-        ctx.logger.error('API查询失败:', error)
-        return `查询失败: ${error.message || '未知错误'}\n可能是网络问题或API密钥无效，请稍后再试`
+        ctx.logger.error('绑定账号失败:', error)
+        return formatApiError(locale, error, playerName, platform)
+          || t(locale, 'bind.failed', { message: error.message || t(locale, 'common.unknown-error') })
       }
     })
   
-  // 添加监控命令
-  ctx.command('apexrankwatch <player:string>')
-    .example('apexrankwatch moeneri')
-    .action(async ({ session }, playerName) => {
-      ctx.logger.info(`收到apexrankwatch命令，参数：${playerName}`)
-      if (!playerName) {
-        return '请提供要监控的玩家名称，例如: /apexrankwatch moeneri'
+  // 解除绑定命令
+  ctx.command('apexunbind')
+    .action(async ({ session }) => {
+      ctx.logger.info('收到apexunbind命令')
+      const locale = getLocale(getGroupKey(session), session)
+      
+      const key = getBindingKey(session)
+      const binding = bindingData[key]
+      if (!binding) {
+        return t(locale, 'unbind.not-bound')
       }
       
-      if (!session.guildId) {
-        return '此命令仅适用于群聊，请在群聊中使用'
+      delete bindingData[key]
+      saveBindingData()
+      
+      return t(locale, 'unbind.unbound', { name: binding.playerName, platform: platformNames[binding.platform] })
+    })
+  
+  // 获取地图轮换、合成器轮换、猎杀者分数线等全局数据，与玩家数据共用缓存
+  async function getApiData(endpoint: string, params: Record<string, string> = {}) {
+    return cachedRequest(endpoint, async () => {
+      const response = await provider.fetchData(endpoint, params)
+      if (!response || response.Error) {
+        throw (response?.Error && classifyErrorMessage(String(response.Error), 200)) || new ApiError(response?.Error || 'Empty response', 200)
       }
       
-      // 检查黑名单后再继续
-      if (isBlacklisted(playerName, config.blacklist)) {
-        ctx.logger.warn(`阻止监控黑名单ID: ${playerName}`)
-        return `⛔ 该ID（${playerName}）已被管理员加入黑名单，禁止监控`
+      setCachedResponse([endpoint], response)
+      return response
+    })
+  }
+  
+  // 各平台猎杀者分数线，轮询时使用，最多每 10 分钟更新一次
+  let predatorThresholds: { data: Partial<Record<Platform, number>>, fetched: number } = { data: {}, fetched: 0 }
+  async function getPredatorThresholds(): Promise<Partial<Record<Platform, number>>> {
+    if (Date.now() - predatorThresholds.fetched < 10 * 60 * 1000) {
+      return predatorThresholds.data
+    }
+    
+    try {
+      const platforms = (await getApiData('predator')).RP || {}
+      const data: Partial<Record<Platform, number>> = {}
+      for (const platform of Object.keys(platformNames) as Platform[]) {
+        if (platforms[platform]?.val) data[platform] = platforms[platform].val
       }
+      predatorThresholds = { data, fetched: Date.now() }
+    } catch (error) {
+      // 获取失败时继续使用上一次的分数线，10 分钟后再试
+      ctx.logger.error('获取猎杀者分数线失败:', error)
+      predatorThresholds.fetched = Date.now()
+    }
+    return predatorThresholds.data
+  }
+  
+  // 获取地图轮换数据（version=2 包含排位和混合模式）
+  function getMapRotation() {
+    return getApiData('maprotation', { version: '2' })
+  }
+  
+  // 格式化一种模式的当前地图和下一张地图，混合模式同时显示子模式名称
+  function formatMapRotation(locale: string, label: string, rotation: any): string {
+    if (!rotation?.current?.map) return ''
+    
+    const { current, next } = rotation
+    const mapName = (entry: any) => entry.eventName && entry.eventName !== label
+      ? `${translateName(locale, entry.eventName)} · ${translateName(locale, entry.map)}`
+      : translateName(locale, entry.map)
+    
+    const remaining = current.remainingSecs ?? (current.end ? current.end - Date.now() / 1000 : null)
+    let text = t(locale, 'map.current', { mode: translateName(locale, label), map: mapName(current) })
+    if (remaining !== null) {
+      text += t(locale, 'time.remaining', { time: formatRemaining(locale, remaining) })
+    }
+    if (next?.map) {
+      text += '\n' + t(locale, 'map.next', { map: mapName(next) })
+    }
+    return text
+  }
+  
+  // 地图轮换命令
+  ctx.command('apexmap')
+    .action(async ({ session }) => {
+      ctx.logger.info('收到apexmap命令')
+      const locale = getLocale(getGroupKey(session), session)
       
       try {
-        const groupId = session.guildId
-        const playerKey = playerName.toLowerCase()
+        const rotation = await getMapRotation()
+        const sections = [
+          formatMapRotation(locale, 'Battle Royale', rotation.battle_royale),
+          formatMapRotation(locale, 'Ranked', rotation.ranked),
+          formatMapRotation(locale, 'Mixtape', rotation.ltm)
+        ].filter(Boolean)
         
-        const playerData = await getPlayerStats(playerName)
+        if (sections.length === 0) {
+          return t(locale, 'map.unavailable')
+        }
         
-        if (playerData.rankScore < config.minValidScore) {
-          return `查询到 ${playerName} 的分数为 ${playerData.rankScore}，低于最小有效分数 ${config.minValidScore}，可能是API错误，请稍后再试`
+        return t(locale, 'map.title') + '\n\n' + sections.join('\n\n')
+      } catch (error) {
+        ctx.logger.error('获取地图轮换失败:', error)
+        return formatApiError(locale, error)
+          || t(locale, 'map.failed', { message: error.message || t(locale, 'common.unknown-error') })
+      }
+    })
+  
+  // 合成器轮换命令
+  ctx.command('apexcraft')
+    .action(async ({ session }) => {
+      ctx.logger.info('收到apexcraft命令')
+      const locale = getLocale(getGroupKey(session), session)
+      
+      try {
+        const bundles: any[] = await getApiData('crafting')
+        
+        let response = t(locale, 'craft.title') + '\n'
+        for (const bundle of bundles) {
+          if (bundle.bundleType !== 'daily' && bundle.bundleType !== 'weekly') continue
+          
+          response += '\n' + t(locale, `craft.${bundle.bundleType}`)
+          if (bundle.end) {
+            response += t(locale, 'time.remaining', { time: formatRemaining(locale, bundle.end - Date.now() / 1000) })
+          }
+          response += `\n`
+          
+          for (const item of bundle.bundleContent || []) {
+            const itemName = translateName(locale, item.itemType?.name || item.item).replace(/_/g, ' ')
+            response += t(locale, 'craft.item', { name: itemName, cost: item.cost }) + '\n'
+          }
         }
         
-        if (!groupSubscriptions[groupId]) {
-          groupSubscriptions[groupId] = {
-            groupId,
-            players: {}
+        return response.trimEnd()
+      } catch (error) {
+        ctx.logger.error('获取合成器轮换失败:', error)
+        return formatApiError(locale, error)
+          || t(locale, 'craft.failed', { message: error.message || t(locale, 'common.unknown-error') })
+      }
+    })
+  
+  // 猎杀者分数线命令
+  ctx.command('apexpred')
+    .action(async ({ session }) => {
+      ctx.logger.info('收到apexpred命令')
+      const locale = getLocale(getGroupKey(session), session)
+      
+      try {
+        const data = await getApiData('predator')
+        const platforms = data.RP || {}
+        
+        let response = t(locale, 'pred.title') + '\n'
+        let updated = 0
+        for (const platform of Object.keys(platformNames) as Platform[]) {
+          const entry = platforms[platform]
+          if (!entry) continue
+          
+          response += '\n' + t(locale, 'pred.entry', { platform: platformNames[platform], score: entry.val })
+          if (entry.totalMastersAndPreds) {
+            response += t(locale, 'pred.masters', { count: entry.totalMastersAndPreds })
           }
+          updated = Math.max(updated, entry.updateTimestamp || 0)
         }
         
-        if (groupSubscriptions[groupId].players[playerKey]) {
-          return `本群已经在监控 ${playerName} 的排名变化了`
+        if (updated) {
+          response += '\n\n' + t(locale, 'pred.updated', { day: formatDay(updated * 1000), time: formatTime(updated * 1000) })
+        }
+        return response
+      } catch (error) {
+        ctx.logger.error('获取猎杀者分数线失败:', error)
+        return formatApiError(locale, error)
+          || t(locale, 'pred.failed', { message: error.message || t(locale, 'common.unknown-error') })
+      }
+    })
+  
+  // 排位地图轮换公告：当前排位地图结束后重新获取，地图变化时通知所有监控了玩家的群
+  let lastRankedMap = ''
+  async function checkRankedMap() {
+    if (!active) return
+    
+    // 获取失败时 10 分钟后重试
+    let delay = 10 * 60 * 1000
+    try {
+      const ranked = (await getMapRotation()).ranked
+      if (ranked?.current?.map) {
+        if (lastRankedMap && lastRankedMap !== ranked.current.map) {
+          ctx.logger.info(`排位地图已轮换为 ${ranked.current.map}`)
+          for (const groupId in groupSubscriptions) {
+            try {
+              const locale = getLocale(groupId)
+              await sendGroupMessage(groupId, t(locale, 'map.rotated') + '\n\n' + formatMapRotation(locale, 'Ranked', ranked))
+            } catch (error) {
+              ctx.logger.error(`发送群 ${groupId} 地图轮换公告失败:`, error)
+            }
+          }
         }
+        lastRankedMap = ranked.current.map
         
-        groupSubscriptions[groupId].players[playerKey] = {
-          playerName: playerName,
-          rankScore: playerData.rankScore,
-          rankName: playerData.rankName,
-          rankDiv: playerData.rankDiv,
-          globalRankPercent: playerData.globalRankPercent,
-          selectedLegend: playerData.selectedLegend,
-          legendStats: playerData.legendStats,
-          lastChecked: Date.now()
+        // 在地图结束后稍等一会再检查，避免取到尚未更新的数据；最长 6 小时检查一次
+        if (ranked.current.end) {
+          delay = Math.min(6 * 60 * 60 * 1000, Math.max(60 * 1000, ranked.current.end * 1000 - Date.now() + 30 * 1000))
+        }
+      }
+    } catch (error) {
+      ctx.logger.error('获取排位地图轮换失败:', error)
+    }
+    
+    if (!active) return
+    ctx.setTimeout(checkRankedMap, delay)
+  }
+  
+  // 管理命令
+  ctx.command('apexrankadmin', { authority: config.adminAuthority })
+  
+  ctx.command('apexrankadmin.list [groupId:string]', { authority: config.adminAuthority })
+    .example('apexrankadmin.list')
+    .example('apexrankadmin.list onebot:123456789')
+    .action(async ({ session }, groupId) => {
+      ctx.logger.info(`收到apexrankadmin.list命令，参数：${groupId}`)
+      const locale = getLocale(getGroupKey(session), session)
+      
+      // 不指定群时列出所有群的监控数量
+      if (!groupId) {
+        const groups = Object.values(groupSubscriptions).filter(group => Object.keys(group.players || {}).length > 0)
+        if (groups.length === 0) {
+          return t(locale, 'admin.list.empty')
+        }
+        
+        let total = 0
+        let response = t(locale, 'admin.list.summary-title') + '\n\n'
+        for (const group of groups) {
+          const count = Object.keys(group.players).length
+          total += count
+          response += t(locale, 'admin.list.group', { group: group.groupId, count }) + '\n'
+        }
+        response += '\n' + t(locale, 'admin.list.total', { groups: groups.length, total })
+        if (config.maxPlayersTotal) {
+          response += t(locale, 'admin.list.limit', { max: config.maxPlayersTotal })
+        }
+        return response
+      }
+      
+      const group = groupSubscriptions[findGroupKey(groupId)]
+      if (!group || Object.keys(group.players || {}).length === 0) {
+        return t(locale, 'admin.group-empty', { group: groupId })
+      }
+      
+      let response = t(locale, 'admin.list.title', { group: groupId }) + '\n\n'
+      Object.values(group.players).forEach((player, index) => {
+        response += t(locale, 'admin.list.entry', {
+          index: index + 1,
+          name: player.playerName,
+          platform: platformNames[player.platform] || player.platform,
+          score: player.rankScore
+        }) + '\n'
+        if (player.addedBy) {
+          response += t(locale, 'admin.list.added-by', { user: player.addedBy })
+          if (player.addedAt) {
+            response += t(locale, 'admin.list.added-at', { day: formatDay(player.addedAt), time: formatTime(player.addedAt) })
+          }
+          response += `\n`
+        }
+      })
+      return response.trimEnd()
+    })
+  
+  ctx.command('apexrankadmin.status', { authority: config.adminAuthority })
+    .action(async ({ session }) => {
+      ctx.logger.info('收到apexrankadmin.status命令')
+      const locale = getLocale(getGroupKey(session), session)
+      
+      const now = Date.now()
+      const limiter = rateLimiter.state()
+      const schedules = Object.values(playerSchedule)
+      const online = schedules.filter(item => item.online).length
+      const targetCount = collectPollTargets().size
+      
+      let response = t(locale, 'admin.status.title') + '\n\n'
+      response += t(locale, schedulerState.running ? 'admin.status.running' : 'admin.status.idle') + '\n'
+      response += t(locale, 'admin.status.source', {
+        source: config.provider === 'mock' ? t(locale, 'admin.status.mock', { file: config.mockFile }) : config.apiBaseUrl
+      }) + '\n'
+      response += t(locale, 'admin.status.interval', { minutes: config.checkInterval })
+      if (config.adaptivePolling) {
+        response += t(locale, 'admin.status.offline-interval', { minutes: config.offlineCheckInterval })
+      }
+      response += '\n' + t(locale, 'admin.status.players', { count: targetCount, online, offline: schedules.length - online }) + '\n'
+      
+      if (schedulerState.lastCycleStart) {
+        response += t(locale, 'admin.status.last-cycle', {
+          day: formatDay(schedulerState.lastCycleStart),
+          time: formatTime(schedulerState.lastCycleStart),
+          count: schedulerState.lastCycleChecked
+        })
+        if (!schedulerState.running) {
+          response += t(locale, 'admin.status.duration', { seconds: Math.round(schedulerState.lastCycleDuration / 1000) })
+        }
+        response += `\n`
+      }
+      if (!schedulerState.running && schedulerState.nextCycle > now) {
+        response += t(locale, 'admin.status.next-cycle', { seconds: Math.ceil((schedulerState.nextCycle - now) / 1000) }) + '\n'
+      }
+      
+      response += '\n' + t(locale, 'admin.status.rate-limit', { rate: config.rateLimit, tokens: limiter.tokens.toFixed(1) }) + '\n'
+      if (limiter.pausedUntil > now) {
+        response += t(locale, 'admin.status.paused', { seconds: Math.ceil((limiter.pausedUntil - now) / 1000) }) + '\n'
+      }
+      response += t(locale, 'admin.status.requests', { total: requestStats.total, limited: requestStats.rateLimited }) + '\n'
+      response += t(locale, 'admin.status.cache', { count: Object.keys(responseCache).length })
+      
+      const quarantined = Object.keys(quarantinedReadings).length
+      if (quarantined > 0) {
+        response += '\n' + t(locale, 'admin.status.quarantined', { count: quarantined })
+      }
+      
+      return response
+    })
+  
+  ctx.command('apexrankadmin.bindings [player:string]', { authority: config.adminAuthority })
+    .example('apexrankadmin.bindings')
+    .example('apexrankadmin.bindings moeneri')
+    .action(async ({ session }, playerName) => {
+      ctx.logger.info(`收到apexrankadmin.bindings命令，参数：${playerName}`)
+      const locale = getLocale(getGroupKey(session), session)
+      
+      const lowerName = playerName?.toLowerCase()
+      const entries = Object.entries(bindingData)
+        .filter(([, binding]) => !lowerName || binding.playerName.toLowerCase() === lowerName)
+      if (entries.length === 0) {
+        return playerName ? t(locale, 'admin.bindings.not-bound', { name: playerName }) : t(locale, 'admin.bindings.empty')
+      }
+      
+      let response = t(locale, 'admin.bindings.title') + '\n\n'
+      for (const [key, binding] of entries) {
+        response += t(locale, 'admin.bindings.entry', {
+          user: key,
+          name: binding.playerName,
+          platform: platformNames[binding.platform] || binding.platform,
+          day: formatDay(binding.boundAt)
+        }) + '\n'
+      }
+      response += '\n' + t(locale, 'admin.bindings.total', { count: entries.length })
+      return response
+    })
+  
+  ctx.command('apexrankadmin.clear <groupId:string>', { authority: config.adminAuthority })
+    .option('platform', '-p <platform:string> 平台（PC/PS4/X1/SWITCH）')
+    .option('player', '<player:string> 只移除指定玩家')
+    .example('apexrankadmin.clear onebot:123456789')
+    .example('apexrankadmin.clear onebot:123456789 --player moeneri')
+    .action(async ({ session, options }, groupId) => {
+      ctx.logger.info(`收到apexrankadmin.clear命令，参数：${groupId}`)
+      const locale = getLocale(getGroupKey(session), session)
+      if (!groupId) {
+        return t(locale, 'admin.clear.need-group')
+      }
+      
+      const groupKey = findGroupKey(groupId)
+      const group = groupSubscriptions[groupKey]
+      if (!group || Object.keys(group.players || {}).length === 0) {
+        return t(locale, 'admin.group-empty', { group: groupId })
+      }
+      
+      if (options.player) {
+        const platform = resolvePlatform(options.platform)
+        if (!platform) {
+          return t(locale, 'common.unknown-platform', { platform: options.platform })
+        }
+        
+        const playerKey = getPlayerKey(options.player, platform)
+        if (!group.players[playerKey]) {
+          return t(locale, 'admin.clear.not-watched', { group: groupId, name: options.player, platform: platformNames[platform] })
         }
         
+        delete group.players[playerKey]
+        if (Object.keys(group.players).length === 0) {
+          delete groupSubscriptions[groupKey]
+        }
         saveGroupData()
         
-        // 尝试发送测试消息，但不强制要求成功
-        await sendGroupMessage(groupId, `✅ 测试消息: 已添加对 ${playerName} 的排名监控`)
+        ctx.logger.info(`管理员 ${session.userId} 移除了群 ${groupKey} 对 ${options.player} 的监控`)
+        return t(locale, 'admin.clear.removed', { group: groupId, name: options.player, platform: platformNames[platform] })
+      }
+      
+      const count = Object.keys(group.players).length
+      delete groupSubscriptions[groupKey]
+      delete pendingChanges[groupKey]
+      saveGroupData()
+      
+      ctx.logger.info(`管理员 ${session.userId} 清空了群 ${groupKey} 的 ${count} 个监控`)
+      return t(locale, 'admin.clear.cleared', { group: groupId, count })
+    })
+  
+  // 黑名单管理命令
+  ctx.command('apexblacklist <action:string> [player:string] [reason:text]', { authority: config.adminAuthority })
+    .option('global', '-g 操作全局黑名单（私聊中默认为全局）')
+    .example('apexblacklist add moeneri 刷屏')
+    .example('apexblacklist add moeneri -g')
+    .example('apexblacklist remove moeneri')
+    .example('apexblacklist list')
+    .action(async ({ session, options }, action, playerName, reason) => {
+      ctx.logger.info(`收到apexblacklist命令，参数：${action} ${playerName || ''}`)
+      
+      const locale = getLocale(getGroupKey(session), session)
+      const groupId = options.global ? undefined : getGroupKey(session)
+      const scope = t(locale, groupId ? 'blacklist.scopes.group' : 'blacklist.scopes.global')
+      
+      if (action === 'list') {
+        const globalEntries = Object.values(blacklistData.global)
+        const groupEntries = groupId ? Object.values(blacklistData.groups[groupId] || {}) : []
+        const configEntries = (config.blacklist || '').split(',').map(id => id.trim()).filter(id => id !== '')
         
-        return `成功添加对 ${playerName} 的排名监控！\n当前排名: ${getRankDisplayText(playerData)}`
-      } catch (error) {
-        ctx.logger.error('添加群监控失败:', error)
-        return `添加监控失败: ${error.message || '未知错误'}\n可能是网络问题或API密钥无效，请稍后再试`
+        if (globalEntries.length + groupEntries.length + configEntries.length === 0) {
+          return t(locale, 'blacklist.empty')
+        }
+        
+        const formatEntry = (entry: BlacklistEntry) => {
+          let line = `   ${entry.playerName}`
+          if (entry.reason) line += ` - ${entry.reason}`
+          line += t(locale, 'blacklist.added-at', { day: formatDay(entry.addedAt) }) + '\n'
+          return line
+        }
+        
+        let response = t(locale, 'blacklist.title') + '\n'
+        if (configEntries.length > 0) {
+          response += '\n' + t(locale, 'blacklist.sections.config') + '\n'
+          for (const id of configEntries) response += `   ${id}\n`
+        }
+        if (globalEntries.length > 0) {
+          response += '\n' + t(locale, 'blacklist.sections.global') + '\n'
+          for (const entry of globalEntries) response += formatEntry(entry)
+        }
+        if (groupEntries.length > 0) {
+          response += '\n' + t(locale, 'blacklist.sections.group') + '\n'
+          for (const entry of groupEntries) response += formatEntry(entry)
+        }
+        return response.trimEnd()
+      }
+      
+      if (action !== 'add' && action !== 'remove') {
+        return t(locale, 'blacklist.unknown-action', { action })
+      }
+      
+      if (!playerName) {
+        return t(locale, 'blacklist.need-player', { action })
+      }
+      
+      const key = playerName.toLowerCase()
+      let entries = groupId ? blacklistData.groups[groupId] : blacklistData.global
+      
+      if (action === 'add') {
+        if (!entries) {
+          entries = blacklistData.groups[groupId] = createEntryMap()
+        }
+        if (entries[key]) {
+          return t(locale, 'blacklist.exists', { name: playerName, scope })
+        }
+        
+        entries[key] = {
+          playerName,
+          reason,
+          addedBy: session.userId,
+          addedAt: Date.now()
+        }
+        saveBlacklistData()
+        
+        const purged = purgeSubscriptions(playerName, groupId)
+        ctx.logger.info(`${session.userId} 将 ${playerName} 加入${groupId ? '本群' : '全局'}黑名单，移除了 ${purged} 个订阅`)
+        
+        let response = t(locale, 'blacklist.added', { name: playerName, scope })
+        if (purged > 0) {
+          response += t(locale, 'blacklist.purged', { count: purged })
+        }
+        return response
+      }
+      
+      if (!entries?.[key]) {
+        return isBlacklisted(playerName, config.blacklist)
+          ? t(locale, 'blacklist.in-config', { name: playerName })
+          : t(locale, 'blacklist.not-listed', { name: playerName, scope })
+      }
+      
+      delete entries[key]
+      if (groupId && Object.keys(entries).length === 0) {
+        delete blacklistData.groups[groupId]
       }
+      saveBlacklistData()
+      
+      return t(locale, 'blacklist.removed', { name: playerName, scope })
     })
   
-  // 查看监控列表命令
-  ctx.command('apexranklist')
-    .action(async ({ session }) => {
-      ctx.logger.info(`收到apexranklist命令`)
-      if (!session.guildId) {
-        return '此命令仅适用于群聊，请在群聊中使用'
+  type PlayerStats = Awaited<ReturnType<typeof getPlayerStats>>
+  
+  // 处理一次查询结果：补全UID、检测改名、比较分数并通知
+  async function checkSubscription(group: GroupSubscription, playerKey: string, player: PlayerData, playerData: PlayerStats) {
+    // 旧数据没有UID，在首次成功检查时补全
+    if (!player.uid && playerData.uid) {
+      player.uid = String(playerData.uid)
+      ctx.logger.info(`已为玩家 ${player.playerName} 记录UID: ${player.uid}`)
+      saveGroupData()
+    }
+    
+    // 通过UID查询时，API返回的名称可能与记录的不同，说明玩家改名了
+    if (playerData.name && playerData.name.toLowerCase() !== player.playerName.toLowerCase()) {
+      const oldName = player.playerName
+      const kept = renameSubscription(group, playerKey, playerData.name)
+      saveGroupData()
+      
+      // 同步更新绑定了该玩家的账号名称
+      const bindings = Object.values(bindingData).filter(binding => binding.uid && binding.uid === player.uid && binding.platform === player.platform)
+      for (const binding of bindings) {
+        binding.playerName = playerData.name
+      }
+      if (bindings.length > 0) {
+        saveBindingData()
       }
       
-      const groupId = session.guildId
+      ctx.logger.info(`玩家 ${oldName} 已改名为 ${playerData.name}`)
       
-      if (!groupSubscriptions[groupId] || !groupSubscriptions[groupId].players || 
-          Object.keys(groupSubscriptions[groupId].players).length === 0) {
-        return '本群目前没有监控任何玩家的排名'
+      try {
+        await sendGroupMessage(group.groupId, t(getLocale(group.groupId), 'notify.rename', { oldName, newName: playerData.name }))
+      } catch (error) {
+        ctx.logger.error(`通知群 ${group.groupId} 失败:`, error)
       }
       
-      const players = groupSubscriptions[groupId].players
+      if (!kept) return
+    }
+    
+    // 赛季或赛季阶段变化：归档上赛季的最终段位，以新赛季的分数作为新的基准，不按分数变化通知
+    if (playerData.rankedSeason && player.season && playerData.rankedSeason !== player.season) {
+      await rolloverSeason(player.season, playerData.rankedSeason)
+      ctx.logger.info(`玩家 ${player.playerName} 进入新赛季 ${playerData.rankedSeason}，分数基准 ${player.rankScore} → ${playerData.rankScore}`)
       
-      let response = '📋 本群 Apex 排名监控列表\n\n'
+      player.season = playerData.rankedSeason
+      player.rankScore = playerData.rankScore
+      player.rankName = playerData.rankName
+      player.rankDiv = playerData.rankDiv
+      player.globalRankPercent = playerData.globalRankPercent
+      player.selectedLegend = playerData.selectedLegend
+      player.legendStats = playerData.legendStats
+      player.predatorZone = 'far'
+      player.lastChecked = Date.now()
+      saveGroupData()
+      return
+    }
+    
+    // 旧数据没有赛季，在首次成功检查时补全
+    if (playerData.rankedSeason && !player.season) {
+      player.season = playerData.rankedSeason
+      saveGroupData()
+    }
+    
+    const newRankScore = playerData.rankScore
+    const oldRankScore = player.rankScore
+    
+    // 可疑读数已在 pollTarget 中隔离确认，这里的分数都可以直接使用
+    // API 提供赛季信息时赛季变化已在上面处理，只有缺少赛季信息时才按分数猜测赛季重置
+    const isSeasonReset = !playerData.rankedSeason && isLikelySeasonReset(oldRankScore, newRankScore)
+    
+    // 猎杀者由排行榜决定，分数不变时段位也可能变化
+    const rankChanged = playerData.rankName !== player.rankName || playerData.rankDiv !== player.rankDiv
+    
+    if (newRankScore !== oldRankScore || rankChanged) {
+      const diff = newRankScore - oldRankScore
+      const locale = getLocale(group.groupId)
       
-      Object.values(players).forEach((player: PlayerData, index) => {
-        const rankDisplay = player.rankDiv !== 0 ? `${player.rankName} ${player.rankDiv}` : player.rankName
-        response += `${index + 1}. 👤 ${player.playerName}\n`
-        response += `   🏆 段位: ${rankDisplay}\n`
-        response += `   🔢 分数: ${player.rankScore}\n`
-        
-        if (player.globalRankPercent && player.globalRankPercent !== '未知') {
-          response += `   🌎 全球排名: ${player.globalRankPercent}%\n`
-        }
-        
-        if (player.selectedLegend) {
-          response += `   🎮 当前英雄: ${player.selectedLegend}\n`
-          
-          // 显示英雄击杀排名信息（如果有）
-          if (player.legendStats && player.legendStats.kills) {
-            response += `   📊 击杀排名: 全球 ${player.legendStats.kills.globalPercent}%\n`
-          }
-        }
-        
-        response += `\n`
-      })
+      const oldRankDisplay = formatRank(locale, player)
+      const rankEvent = classifyRankChange(player, playerData)
       
-      response += `总计: ${Object.keys(players).length} 个玩家\n`
-      response += `检测间隔: ${config.checkInterval} 分钟\n`
-      response += `分数异常判断: 仅当高分(>1000)掉到接近0分(<10)时判定为异常\n`
-      response += `最小有效分数: ${config.minValidScore} 分`
+      player.rankScore = newRankScore
+      player.rankName = playerData.rankName
+      player.rankDiv = playerData.rankDiv
+      player.globalRankPercent = playerData.globalRankPercent
+      player.selectedLegend = playerData.selectedLegend
+      player.legendStats = playerData.legendStats
+      player.lastChecked = Date.now()
       
-      return response
-    })
-  
-  // 移除监控命令
-  ctx.command('apexrankremove <player:string>')
-    .example('apexrankremove moeneri')
-    .action(async ({ session }, playerName) => {
-      ctx.logger.info(`收到apexrankremove命令，参数：${playerName}`)
-      if (!playerName) {
-        return '请提供要移除监控的玩家名称，例如: /apexrankremove moeneri'
+      try {
+        await recordScoreChange({
+          playerId: getHistoryKey(player),
+          playerName: player.playerName,
+          platform: player.platform,
+          timestamp: player.lastChecked,
+          oldScore: oldRankScore,
+          newScore: newRankScore,
+          rankName: player.rankName,
+          rankDiv: player.rankDiv,
+          legend: player.selectedLegend,
+          season: player.season
+        })
+      } catch (error) {
+        ctx.logger.error(`记录玩家 ${player.playerName} 分数历史失败:`, error)
       }
       
-      if (!session.guildId) {
-        return '此命令仅适用于群聊，请在群聊中使用'
+      const now = new Date()
+      const dateStr = `${now.getFullYear()}/${String(now.getMonth() + 1).padStart(2, '0')}/${String(now.getDate()).padStart(2, '0')} ${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}:${String(now.getSeconds()).padStart(2, '0')}`
+      
+      const newRankDisplay = formatRank(locale, player)
+      const mentions = getBindingMentions(group, player)
+      
+      let message = mentions ? `${mentions}\n` : ''
+      if (rankEvent !== 'none') {
+        message += t(locale, `notify.banner.${rankEvent}`, { name: player.playerName, oldRank: oldRankDisplay, newRank: newRankDisplay }) + '\n'
       }
+      message += t(locale, 'notify.score-change.title') + '\n'
+      message += t(locale, 'notify.score-change.time', { time: dateStr }) + '\n'
+      message += t(locale, 'notify.score-change.player', { name: player.playerName }) + '\n'
+      message += t(locale, 'notify.score-change.old-score', { score: oldRankScore }) + '\n'
+      message += t(locale, 'notify.score-change.new-score', { score: newRankScore }) + '\n'
+      message += t(locale, 'notify.score-change.rank', { rank: newRankDisplay }) + '\n'
+      message += diff > 0 ? t(locale, 'notify.score-change.diff-up', { diff })
+        : diff < 0 ? t(locale, 'notify.score-change.diff-down', { diff: Math.abs(diff) })
+        : t(locale, 'notify.score-change.diff-none')
       
-      const groupId = session.guildId
-      const playerKey = playerName.toLowerCase()
+      // 如果可能是赛季重置，添加提示
+      if (isSeasonReset) {
+        message += '\n' + t(locale, 'notify.score-change.season-reset')
+      }
       
-      if (!groupSubscriptions[groupId] || !groupSubscriptions[groupId].players) {
-        return `本群没有监控 ${playerName} 的排名`
+      if (playerData.globalRankPercent && playerData.globalRankPercent !== '未知') {
+        message += '\n' + t(locale, 'notify.score-change.global-rank', { percent: playerData.globalRankPercent })
       }
       
-      if (!groupSubscriptions[groupId].players[playerKey]) {
-        return `本群没有监控 ${playerName} 的排名`
+      // 只有玩家在线时才显示当前英雄和击杀排名
+      if (playerData.isOnline && playerData.selectedLegend) {
+        message += '\n' + t(locale, 'notify.score-change.legend', { legend: translateName(locale, playerData.selectedLegend) })
+        
+        // 显示英雄击杀、伤害、胜场排名（如果有）
+        for (const category of trackerCategories) {
+          const percent = playerData.legendStats?.[category]?.globalPercent
+          if (percent) {
+            message += '\n' + t(locale, `notify.score-change.${category}-rank`, { percent })
+          }
+        }
       }
       
-      delete groupSubscriptions[groupId].players[playerKey]
+      // 只有玩家在线时才显示当前状态
+      if (playerData.isOnline && playerData.currentState) {
+        message += '\n' + t(locale, 'notify.score-change.state', { state: formatState(locale, playerData) })
+      }
       
-      if (Object.keys(groupSubscriptions[groupId].players).length === 0) {
-        delete groupSubscriptions[groupId]
+      // 尝试发送消息，但不影响程序运行
+      try {
+        if (shouldNotify(group, rankEvent, diff)) {
+          await deliverScoreChange(group, {
+            playerName: player.playerName,
+            oldScore: oldRankScore,
+            newScore: newRankScore,
+            rankName: player.rankName,
+            rankDiv: player.rankDiv,
+            timestamp: player.lastChecked
+          }, message, rankEvent !== 'none' && !rankEvent.startsWith('division'))
+        } else {
+          ctx.logger.info(`群 ${group.groupId} 的通知过滤规则跳过了 ${player.playerName} 的分数变化 (${diff})`)
+        }
+      } catch (error) {
+        ctx.logger.error(`通知群 ${group.groupId} 失败:`, error)
       }
       
       saveGroupData()
+    }
+    
+    // 分数线随排行榜变化，分数不变时也需要检查
+    try {
+      await checkPredatorProximity(group, player)
+    } catch (error) {
+      ctx.logger.error(`检查玩家 ${player.playerName} 猎杀者距离失败:`, error)
+    }
+  }
+  
+  // 赛季最终段位文本，按分数从高到低排列
+  function formatSeasonStandings(locale: string, players: { playerName: string, rankScore: number, rankName: string, rankDiv: number }[]): string {
+    const medals = ['🥇', '🥈', '🥉']
+    return [...players]
+      .sort((a, b) => b.rankScore - a.rankScore)
+      .map((player, index) => t(locale, 'season.entry', {
+        medal: medals[index] || '  ',
+        index: index + 1,
+        name: player.playerName,
+        rank: formatRank(locale, player),
+        score: player.rankScore
+      }))
+      .join('\n')
+  }
+  
+  // 赛季变化：归档所有仍停留在上赛季的玩家的最终段位，并向各群发送赛季总结
+  // 各玩家在下次检测时各自重置分数基准，已归档的玩家不会重复归档，总结也只发送一次
+  async function rolloverSeason(oldSeason: string, newSeason: string) {
+    const archivedAt = Date.now()
+    const checked = new Set<string>()
+    const archived = new Set<string>()
+    
+    for (const groupId in groupSubscriptions) {
+      for (const player of Object.values(groupSubscriptions[groupId].players)) {
+        const playerId = getHistoryKey(player)
+        if (player.season !== oldSeason || checked.has(playerId)) continue
+        checked.add(playerId)
+        
+        const created = await archiveSeasonEntry({
+          playerId,
+          playerName: player.playerName,
+          platform: player.platform,
+          season: oldSeason,
+          rankScore: player.rankScore,
+          rankName: player.rankName,
+          rankDiv: player.rankDiv,
+          archivedAt
+        })
+        if (created) archived.add(playerId)
+      }
+    }
+    
+    if (archived.size === 0) return
+    ctx.logger.info(`检测到赛季变化 ${oldSeason} → ${newSeason}，已归档 ${archived.size} 名玩家的最终段位`)
+    
+    for (const groupId in groupSubscriptions) {
+      const players = Object.values(groupSubscriptions[groupId].players)
+        .filter(player => player.season === oldSeason && archived.has(getHistoryKey(player)))
+      if (players.length === 0) continue
       
-      return `已移除本群对 ${playerName} 的排名监控`
-    })
+      const locale = getLocale(groupId)
+      let message = t(locale, 'season.recap-title', { season: formatSeason(locale, oldSeason) }) + '\n\n'
+      message += formatSeasonStandings(locale, players) + '\n\n'
+      message += t(locale, 'season.recap-footer', { season: formatSeason(locale, newSeason) })
+      
+      try {
+        await sendGroupMessage(groupId, message)
+      } catch (error) {
+        ctx.logger.error(`发送群 ${groupId} 赛季总结失败:`, error)
+      }
+    }
+  }
   
-  // 定时检查排名变化
-  ctx.setInterval(async () => {
+  // 大师玩家接近猎杀者分数线时提醒
+  // 成为 / 跌出猎杀者由段位变化通知提示，这里只记录位置，避免重复通知
+  async function checkPredatorProximity(group: GroupSubscription, player: PlayerData) {
+    if (!config.predatorAlertDistance) return
+    
+    const previous = player.predatorZone || 'far'
+    let zone: PredatorZone = 'far'
+    let threshold: number
+    
+    if (player.rankName === 'Apex Predator') {
+      zone = 'predator'
+    } else if (player.rankName === 'Master') {
+      threshold = (await getPredatorThresholds())[player.platform]
+      if (!threshold) return
+      
+      // 已在提醒范围内的玩家离开时留出 20% 余量，避免分数线小幅波动导致反复提醒
+      const distance = previous === 'near' ? config.predatorAlertDistance * 1.2 : config.predatorAlertDistance
+      if (threshold - player.rankScore <= distance) zone = 'near'
+    }
+    
+    if (zone === previous) return
+    player.predatorZone = zone
+    saveGroupData()
+    
+    if (zone !== 'near' || previous !== 'far') return
+    
+    const gap = threshold - player.rankScore
+    const locale = getLocale(group.groupId)
+    const mentions = getBindingMentions(group, player)
+    let message = mentions ? `${mentions}\n` : ''
+    message += gap > 0
+      ? t(locale, 'notify.predator.near', { name: player.playerName, gap }) + '\n'
+      : t(locale, 'notify.predator.reached', { name: player.playerName }) + '\n'
+    message += t(locale, 'notify.predator.score', { score: player.rankScore }) + '\n'
+    message += t(locale, 'notify.predator.threshold', { platform: platformNames[player.platform], threshold })
+    
+    ctx.logger.info(`玩家 ${player.playerName} 接近猎杀者分数线 (${player.rankScore}/${threshold})`)
+    await sendGroupMessage(group.groupId, message)
+  }
+  
+  // 轮询调度状态
+  const cycleMs = config.checkInterval * 60 * 1000
+  const schedulerState = {
+    running: false,
+    lastCycleStart: 0,
+    lastCycleDuration: 0,
+    lastCycleChecked: 0,
+    nextCycle: 0
+  }
+  // 插件停用后不再继续检测
+  let active = true
+  ctx.on('dispose', () => {
+    active = false
+  })
+  
+  // 每个玩家（请求键）的下次检测时间和最近一次的在线状态
+  const playerSchedule: Record<string, { nextCheck: number, online: boolean }> = {}
+  
+  // 收集所有群的订阅，同一玩家只请求一次，再把结果分发给各个订阅
+  function collectPollTargets() {
+    const targets = new Map<string, { groupId: string, playerKey: string }[]>()
+    
     for (const groupId in groupSubscriptions) {
       const group = groupSubscriptions[groupId]
       
@@ -520,90 +3575,375 @@ export function apply(ctx: Context, config: Config) {
         const player = group.players[playerKey]
         
         // 跳过黑名单中的玩家（可能是之前添加的）
-        if (isBlacklisted(player.playerName, config.blacklist)) {
+        if (findBlacklistEntry(player.playerName, groupId)) {
           ctx.logger.warn(`跳过黑名单ID的定时检查: ${player.playerName}`)
           continue
         }
         
+        // 已暂停的监控不再检测，重新添加监控后恢复
+        if (player.paused) continue
+        
+        const requestKey = getRequestKey(player)
+        if (!targets.has(requestKey)) targets.set(requestKey, [])
+        targets.get(requestKey).push({ groupId, playerKey })
+      }
+    }
+    
+    return targets
+  }
+  
+  // 正在游戏中的玩家（请求键）
+  const playSessions: Record<string, PlaySession> = {}
+  // 因长时间未比赛而结束游戏、但仍在线的玩家，再次进入比赛前不开始新的游戏过程
+  const idlePlayers = new Set<string>()
+  
+  // 根据在线状态跟踪玩家的游戏过程，上线时可选通知，结束时发送总结
+  // previous 为本次检测更新分数之前的分数、段位和检测开始时间，作为新游戏过程的起点
+  async function trackSession(key: string, subscriptions: { groupId: string, playerKey: string }[], player: PlayerData, playerData: PlayerStats, previous: { time: number, score: number, rank: PlaySession['startRank'] }) {
+    const now = Date.now()
+    const online = playerData.isOnline
+    let session = playSessions[key]
+    
+    if (!session) {
+      if (!online) {
+        idlePlayers.delete(key)
+        return
+      }
+      if (idlePlayers.has(key) && !playerData.isInMatch) return
+      idlePlayers.delete(key)
+      
+      session = playSessions[key] = {
+        start: previous.time,
+        lastActive: now,
+        startScore: previous.score,
+        startRank: previous.rank,
+        lastScore: player.rankScore,
+        legends: []
+      }
+      ctx.logger.info(`玩家 ${player.playerName} 开始游戏`)
+      
+      for (const { groupId } of subscriptions) {
+        if (!groupSubscriptions[groupId]?.onlineNotify) continue
         try {
-          const playerData = await getPlayerStats(player.playerName)
-          const newRankScore = playerData.rankScore
-          const oldRankScore = player.rankScore
-          
-          const isValidScore = newRankScore >= config.minValidScore
-          
-          // 使用辅助函数判断分数变化是否异常
-          const isAbnormalDrop = isScoreDropAbnormal(oldRankScore, newRankScore)
-          const isSeasonReset = isLikelySeasonReset(oldRankScore, newRankScore)
-          
-          if (isValidScore && !isAbnormalDrop && newRankScore !== oldRankScore) {
-            const diff = newRankScore - oldRankScore
-            const diffText = diff > 0 ? `上升 ${diff}` : `下降 ${Math.abs(diff)}`
-            
-            player.rankScore = newRankScore
-            player.rankName = playerData.rankName
-            player.rankDiv = playerData.rankDiv
-            player.globalRankPercent = playerData.globalRankPercent
-            player.selectedLegend = playerData.selectedLegend
-            player.legendStats = playerData.legendStats
-            player.lastChecked = Date.now()
-            
-            const now = new Date()
-            const dateStr = `${now.getFullYear()}/${String(now.getMonth() + 1).padStart(2, '0')}/${String(now.getDate()).padStart(2, '0')} ${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}:${String(now.getSeconds()).padStart(2, '0')}`
-            
-            const newRankDisplay = player.rankDiv !== 0 ? `${player.rankName} ${player.rankDiv}` : player.rankName
-            
-            let message = `📈 Apex 排位分数变化\n`
-            message += `📅 ${dateStr}\n`
-            message += `👤 ${player.playerName}\n`
-            message += `🔢 原分数：${oldRankScore}\n`
-            message += `🔢 当前分数：${newRankScore}\n`
-            message += `🏆 段位：${newRankDisplay}\n`
-            message += `📊 变动：${diffText} 分`
-            
-            // 如果可能是赛季重置，添加提示
-            if (isSeasonReset) {
-              message += `\n⚠️ 注意：检测到大幅度分数下降，可能是赛季重置导致`
-            }
-            
-            if (playerData.globalRankPercent && playerData.globalRankPercent !== '未知') {
-              message += `\n🌎 全球排名：${playerData.globalRankPercent}%`
-            }
-            
-            // 只有玩家在线时才显示当前英雄和击杀排名
-            if (playerData.isOnline === '在线' && playerData.selectedLegend) {
-              message += `\n🎮 当前英雄：${playerData.selectedLegend}`
-              
-              // 显示英雄击杀排名（如果有）
-              if (playerData.legendStats && playerData.legendStats.kills) {
-                message += `\n📊 击杀排名：全球 ${playerData.legendStats.kills.globalPercent}%`
-              }
-            }
-            
-            // 只有玩家在线时才显示当前状态
-            if (playerData.isOnline === '在线' && playerData.currentState) {
-              message += `\n🎯 当前状态：${playerData.currentState}`
-            }
-            
-            // 尝试发送消息，但不影响程序运行
-            try {
-              await sendGroupMessage(groupId, message)
-            } catch (error) {
-              ctx.logger.error(`通知群 ${groupId} 失败:`, error)
-            }
-            
-            saveGroupData()
-          } else if (!isValidScore) {
-            ctx.logger.warn(`玩家 ${player.playerName} 的分数 ${newRankScore} 无效，保留原分数 ${oldRankScore}`)
-          } else if (isAbnormalDrop) {
-            ctx.logger.warn(`玩家 ${player.playerName} 的分数从 ${oldRankScore} 下降到 ${newRankScore}，从高分掉到接近0分，可能是API错误`)
+          const locale = getLocale(groupId)
+          let message = t(locale, 'notify.online', { name: player.playerName, rank: formatRank(locale, player), score: player.rankScore })
+          if (playerData.currentState) {
+            message += '\n' + t(locale, 'notify.online-state', { state: formatState(locale, playerData) })
           }
+          await sendGroupMessage(groupId, message)
         } catch (error) {
-          ctx.logger.error(`检查玩家 ${player.playerName} 排名失败:`, error)
+          ctx.logger.error(`通知群 ${groupId} 失败:`, error)
+        }
+      }
+    }
+    
+    if (online) {
+      if (playerData.isInMatch || player.rankScore !== session.lastScore) {
+        session.lastActive = now
+      }
+      if (playerData.selectedLegend && !session.legends.includes(playerData.selectedLegend)) {
+        session.legends.push(playerData.selectedLegend)
+      }
+      session.lastScore = player.rankScore
+      
+      if (now - session.lastActive < config.sessionIdleMinutes * 60 * 1000) return
+    }
+    
+    // 下线或长时间未进行比赛，结束本次游戏
+    delete playSessions[key]
+    if (online) idlePlayers.add(key)
+    ctx.logger.info(`玩家 ${player.playerName} 结束游戏`)
+    
+    // 各群的语言可能不同，同一语言的总结只生成一次
+    const summaries: Record<string, string | null> = {}
+    for (const { groupId } of subscriptions) {
+      const group = groupSubscriptions[groupId]
+      // 每日摘要模式的群不单独发送游戏总结
+      if (!group || group.notifyMode === 'digest') continue
+      try {
+        const locale = getLocale(groupId)
+        if (!(locale in summaries)) {
+          summaries[locale] = await buildSessionSummary(locale, player, session)
         }
+        if (!summaries[locale]) continue
+        await sendGroupMessage(groupId, summaries[locale])
+      } catch (error) {
+        ctx.logger.error(`通知群 ${groupId} 失败:`, error)
+      }
+    }
+  }
+  
+  // 生成游戏总结，期间没有分数变化时返回 null
+  async function buildSessionSummary(locale: string, player: PlayerData, session: PlaySession): Promise<string | null> {
+    const entries = await getScoreHistory(getHistoryKey(player), session.start)
+    if (entries.length === 0 && player.rankScore === session.startScore) return null
+    
+    const minutes = Math.max(1, Math.round((session.lastActive - session.start) / 60000))
+    const net = player.rankScore - session.startScore
+    
+    let message = t(locale, 'notify.session.title', { name: player.playerName }) + '\n'
+    message += t(locale, 'notify.session.period', { start: formatTime(session.start), end: formatTime(session.lastActive), minutes }) + '\n'
+    message += t(locale, 'notify.session.matches', { count: entries.length }) + '\n'
+    message += t(locale, 'notify.session.score', { start: session.startScore, end: player.rankScore, diff: formatDiff(net) }) + '\n'
+    
+    // 段位变化：依次列出经过的段位
+    const rankDisplay = formatRank(locale, player)
+    const ranks = [formatRank(locale, session.startRank)]
+    for (const entry of entries) {
+      const entryRank = formatRank(locale, entry)
+      if (ranks[ranks.length - 1] !== entryRank) ranks.push(entryRank)
+    }
+    if (ranks[ranks.length - 1] !== rankDisplay) ranks.push(rankDisplay)
+    message += ranks.length > 1
+      ? t(locale, 'notify.session.rank-path', { ranks: ranks.join(' → ') })
+      : t(locale, 'notify.session.rank', { rank: rankDisplay })
+    
+    // 旧历史记录中的英雄名是中文，先还原再去重
+    const legends = [...session.legends]
+    for (const entry of entries) {
+      const legend = normalizeName(entry.legend)
+      if (legend && !legends.includes(legend)) legends.push(legend)
+    }
+    if (legends.length > 0) {
+      message += '\n' + t(locale, 'notify.session.legends', { legends: legends.map(legend => translateName(locale, legend)).join(t(locale, 'separator')) })
+    }
+    
+    return message
+  }
+  
+  // 连续查询不到玩家的次数（请求键）
+  const notFoundCounts: Record<string, number> = {}
+  
+  // 查询不到玩家：偶尔出现时只记录日志，连续多次后暂停该玩家在所有群的监控并各通知一次
+  async function handlePlayerNotFound(key: string, subscriptions: { groupId: string, playerKey: string }[], player: PlayerData, error: PlayerNotFoundError) {
+    const count = notFoundCounts[key] = (notFoundCounts[key] || 0) + 1
+    if (!config.notFoundPauseThreshold || count < config.notFoundPauseThreshold) {
+      ctx.logger.warn(`查询不到玩家 ${player.playerName}（${platformNames[player.platform]}），连续第 ${count} 次: ${error.message}`)
+      return
+    }
+    
+    delete notFoundCounts[key]
+    ctx.logger.warn(`连续 ${count} 次查询不到玩家 ${player.playerName}（${platformNames[player.platform]}），已暂停监控: ${error.message}`)
+    
+    const groups: GroupSubscription[] = []
+    for (const { groupId, playerKey } of subscriptions) {
+      const group = groupSubscriptions[groupId]
+      const watched = group?.players[playerKey]
+      if (!watched) continue
+      watched.paused = true
+      groups.push(group)
+    }
+    saveGroupData()
+    
+    for (const group of groups) {
+      try {
+        await sendGroupMessage(group.groupId, t(getLocale(group.groupId), 'notify.paused', {
+          name: player.playerName,
+          platformName: platformNames[player.platform],
+          platform: player.platform,
+          count
+        }))
+      } catch (error) {
+        ctx.logger.error(`通知群 ${group.groupId} 失败:`, error)
+      }
+    }
+  }
+  
+  // 等待后续检测确认的可疑读数（请求键）
+  const quarantinedReadings: Record<string, { reading: PlayerStats, reason: string, confirmations: number, since: number }> = {}
+  
+  // 判断读数相对参考值是否可疑，返回原因
+  function getReadingAnomaly(reference: { rankScore: number, season?: string }, playerData: PlayerStats): string | null {
+    if (playerData.anomaly) return playerData.anomaly
+    
+    // 赛季变化时分数重置属于正常情况
+    if (playerData.rankedSeason && reference.season && playerData.rankedSeason !== reference.season) return null
+    
+    const diff = playerData.rankScore - reference.rankScore
+    if (diff === 0) return null
+    if (playerData.rankScore < config.minValidScore) {
+      return `分数 ${playerData.rankScore} 低于最小有效分数 ${config.minValidScore}`
+    }
+    if (config.anomalyMaxChange && Math.abs(diff) > config.anomalyMaxChange) {
+      return `分数变化 ${diff > 0 ? '+' : ''}${diff} 超过 ${config.anomalyMaxChange}`
+    }
+    return null
+  }
+  
+  // 校验一次检测的读数，可疑读数先隔离，后续检测得到一致的读数后才接受，返回是否可以使用本次读数
+  function confirmReading(key: string, player: PlayerData, playerData: PlayerStats): boolean {
+    const reason = getReadingAnomaly(player, playerData)
+    const pending = quarantinedReadings[key]
+    
+    if (!reason) {
+      if (pending) {
+        ctx.logger.info(`玩家 ${player.playerName} 的可疑读数未被确认，已丢弃（${pending.reason}）`)
+        delete quarantinedReadings[key]
+      }
+      return true
+    }
+    
+    // 响应本身有问题时无论重复多少次都不接受
+    if (playerData.anomaly) {
+      ctx.logger.warn(`玩家 ${player.playerName} 的读数异常（${reason}），已忽略，原始响应: ${formatRawResponse(playerData.raw)}`)
+      evictCachedResponse(playerData.raw)
+      return false
+    }
+    
+    // 与隔离中的读数一致（按相同的规则比较）视为一次确认
+    if (pending && !getReadingAnomaly({ rankScore: pending.reading.rankScore, season: pending.reading.rankedSeason }, playerData)) {
+      pending.confirmations++
+      if (pending.confirmations >= config.anomalyConfirmPolls) {
+        ctx.logger.info(`玩家 ${player.playerName} 的可疑读数已确认 ${pending.confirmations} 次，接受新分数 ${playerData.rankScore}（${reason}）`)
+        delete quarantinedReadings[key]
+        return true
+      }
+      ctx.logger.info(`玩家 ${player.playerName} 的可疑读数已确认 ${pending.confirmations}/${config.anomalyConfirmPolls} 次`)
+      evictCachedResponse(playerData.raw)
+      return false
+    }
+    
+    if (!config.anomalyConfirmPolls) {
+      ctx.logger.warn(`玩家 ${player.playerName} 的读数可疑（${reason}），未开启确认，直接接受，原始响应: ${formatRawResponse(playerData.raw)}`)
+      return true
+    }
+    
+    quarantinedReadings[key] = { reading: playerData, reason, confirmations: 0, since: Date.now() }
+    ctx.logger.warn(`玩家 ${player.playerName} 的读数可疑（${reason}），下次检测确认前不通知，原始响应: ${formatRawResponse(playerData.raw)}`)
+    evictCachedResponse(playerData.raw)
+    return false
+  }
+  
+  // 检查一个玩家并把结果分发给所有订阅，返回玩家是否在线
+  async function pollTarget(key: string, subscriptions: { groupId: string, playerKey: string }[]): Promise<boolean | null> {
+    // 改名时会修改 players 的键，因此每次都重新读取订阅
+    const resolve = ({ groupId, playerKey }) => groupSubscriptions[groupId]?.players[playerKey]
+    const first = resolve(subscriptions[0])
+    if (!first) return null
+    
+    // 记录更新前的分数，本次检测发现的分数变化也计入新开始的游戏过程
+    const previous = {
+      time: Date.now(),
+      score: first.rankScore,
+      rank: { rankName: first.rankName, rankDiv: first.rankDiv }
+    }
+    
+    let playerData: PlayerStats
+    try {
+      playerData = await getPlayerStats(first.playerName, first.platform, first.uid)
+    } catch (error) {
+      if (error instanceof PlayerNotFoundError) {
+        await handlePlayerNotFound(key, subscriptions, first, error)
+      } else {
+        ctx.logger.error(`检查玩家 ${first.playerName} 排名失败:`, error)
+      }
+      return null
+    }
+    delete notFoundCounts[key]
+    
+    // 可疑读数不通知也不更新调度，下一轮重新检测确认
+    if (!confirmReading(key, first, playerData)) return null
+    
+    for (const subscription of subscriptions) {
+      const player = resolve(subscription)
+      if (!player) continue
+      
+      try {
+        await checkSubscription(groupSubscriptions[subscription.groupId], subscription.playerKey, player, playerData)
+      } catch (error) {
+        ctx.logger.error(`检查玩家 ${player.playerName} 排名失败:`, error)
+      }
+    }
+    
+    // 分数检查之后再跟踪游戏过程，使用已校验过的分数
+    const player = subscriptions.map(resolve).find(Boolean)
+    if (player) {
+      try {
+        await trackSession(key, subscriptions, player, playerData, previous)
+      } catch (error) {
+        ctx.logger.error(`跟踪玩家 ${player.playerName} 游戏状态失败:`, error)
+      }
+    }
+    
+    return playerData.isOnline || playerData.isInLobbyOrMatch
+  }
+  
+  // 执行一轮检测：只检测到期的玩家，并把请求均匀分散在整个轮询间隔内
+  async function runPollCycle() {
+    const start = Date.now()
+    const targets = collectPollTargets()
+    
+    // 清理已不再监控的玩家的调度状态和游戏状态
+    for (const key in playerSchedule) {
+      if (!targets.has(key)) delete playerSchedule[key]
+    }
+    for (const key in playSessions) {
+      if (!targets.has(key)) delete playSessions[key]
+    }
+    for (const key in quarantinedReadings) {
+      if (!targets.has(key)) delete quarantinedReadings[key]
+    }
+    for (const key in notFoundCounts) {
+      if (!targets.has(key)) delete notFoundCounts[key]
+    }
+    
+    const due = [...targets.entries()].filter(([key]) => (playerSchedule[key]?.nextCheck || 0) <= start)
+    const spacing = due.length > 0 ? cycleMs / due.length : 0
+    
+    schedulerState.lastCycleStart = start
+    schedulerState.lastCycleChecked = 0
+    
+    for (let i = 0; i < due.length; i++) {
+      const wait = start + spacing * i - Date.now()
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait))
+      }
+      if (!active) return
+      
+      const [key, subscriptions] = due[i]
+      const online = await pollTarget(key, subscriptions)
+      schedulerState.lastCycleChecked++
+      
+      // 离线玩家降低检测频率；请求失败时保持原状态，下一轮继续检测
+      if (online !== null) {
+        const interval = config.adaptivePolling && !online
+          ? Math.max(config.offlineCheckInterval * 60 * 1000, cycleMs)
+          : cycleMs
+        // 以本轮开始时间为基准，预留半轮的余量，避免排在后面的玩家被推迟到再下一轮
+        playerSchedule[key] = { nextCheck: start + interval - cycleMs / 2, online }
       }
     }
-  }, config.checkInterval * 60 * 1000)
+    
+    schedulerState.lastCycleDuration = Date.now() - start
+  }
+  
+  // 定时检查排名变化：上一轮结束后才安排下一轮，不会重叠
+  async function pollLoop() {
+    if (!active || schedulerState.running) return
+    await dataLoaded
+    
+    schedulerState.running = true
+    const start = Date.now()
+    try {
+      await runPollCycle()
+    } catch (error) {
+      ctx.logger.error('定时检测失败:', error)
+    } finally {
+      schedulerState.running = false
+    }
+    
+    if (!active) return
+    const delay = Math.max(0, cycleMs - (Date.now() - start))
+    schedulerState.nextCycle = Date.now() + delay
+    ctx.setTimeout(pollLoop, delay)
+  }
+  
+  schedulerState.nextCycle = Date.now() + cycleMs
+  ctx.setTimeout(pollLoop, cycleMs)
+  
+  if (config.mapAnnouncement) {
+    ctx.setTimeout(checkRankedMap, 0)
+  }
   
   // 添加中间件监听消息
   ctx.middleware((session, next) => {
@@ -615,74 +3955,68 @@ export function apply(ctx: Context, config: Config) {
     return next()
   })
   
+  // 已记录过日志的未知英雄名称
+  const unknownLegends = new Set<string>()
+  
   // 获取玩家数据
-  async function getPlayerStats(playerName: string) {
+  // 提供 uid 时按UID查询，不受玩家改名影响
+  async function getPlayerStats(playerName: string, platform: Platform = config.defaultPlatform, uid?: string) {
     try {
-      const apiUrl = `https://api.mozambiquehe.re/bridge`
-      
-      const data = await apiRequestWithRetry(apiUrl, {
-        auth: config.apiKey,
-        player: playerName,
-        platform: 'PC'
+      const requestKey = getRequestKey({ playerName, platform, uid })
+      const data = await cachedRequest(requestKey, async () => {
+        const response = await provider.fetchPlayer(uid ? { platform, uid } : { platform, player: playerName })
+        
+        // 同时按UID和名称缓存，按名称的手动查询与按UID的轮询可以共用结果
+        const global = response?.global
+        if (global && !response.Error) {
+          const keys = [requestKey]
+          if (global.uid) keys.push(getRequestKey({ playerName, platform, uid: String(global.uid) }))
+          if (global.name) keys.push(getRequestKey({ playerName: global.name, platform }))
+          setCachedResponse(keys, response)
+        }
+        
+        return response
       })
       
+      // API 以 HTTP 200 返回的错误信息，能识别原因的直接按对应错误抛出，其余作为异常读数交给轮询处理
+      if (data?.Error) {
+        const apiError = classifyErrorMessage(String(data.Error), 200)
+        if (apiError) throw apiError
+      }
+      
       const globalData = data.global || {}
       const realtimeData = data.realtime || {}
       const rankData = globalData.rank || {}
       const legendsData = data.legends || {}
       
-      // 解析状态文本
-      const isOnlineStatus = realtimeData.isOnline === 1 ? '在线' : '离线'
-      
       // 获取全球排名百分比
       const globalRankPercent = rankData.ALStopPercentGlobal || '未知'
       
-      // 获取当前使用英雄
-      const selectedLegendName = realtimeData.selectedLegend || ''
-      const selectedLegend = translate(selectedLegendName)
-      
-      // 初始化英雄击杀排名数据
-      let legendStats = null
-      
-      // 检查当前选择的英雄数据是否存在
-      if (legendsData && legendsData.selected && legendsData.selected.data) {
-        const legendStatsData = legendsData.selected.data
-        
-        // 查找英雄击杀排名数据
-        for (const stat of legendStatsData) {
-          if ((stat.name === 'BR Kills' || stat.key === 'specialEvent_kills') && stat.rank && stat.rank.topPercent) {
-            legendStats = {
-              kills: {
-                value: stat.value,
-                globalPercent: stat.rank.topPercent.toFixed(2)
-              }
-            }
-            break
-          }
-        }
+      // 获取当前使用英雄，名称保持 API 返回的英文，显示时再翻译
+      const selectedLegend = realtimeData.selectedLegend || ''
+      
+      // 词典以简体中文为准，缺少的英雄名记录一次日志，便于补充词典或配置自定义名称
+      if (selectedLegend && translateName('zh-CN', selectedLegend) === selectedLegend && !unknownLegends.has(selectedLegend)) {
+        unknownLegends.add(selectedLegend)
+        ctx.logger.warn(`未知的英雄名称：${selectedLegend}，请在配置的自定义名称中添加翻译`)
       }
       
+      // 当前英雄的全部追踪器数据，以及所有英雄的统计数据
+      const legendStats = buildLegendStats(parseLegendTrackers(legendsData.selected?.data))
+      const allLegendStats = parseAllLegendStats(legendsData)
+      
       // 解析并翻译当前状态文本
       let currentState = realtimeData.currentStateAsText || realtimeData.currentState || 'offline'
       
       // 如果状态包含时间信息（例如"In match (00:39)"），提取出时间信息
-      let timeInfo = ''
-      // 修复正则表达式以正确匹配时间信息
-      const matchTimeRegex = /$(\d+:\d+)$$/
+      let stateTime = ''
+      const matchTimeRegex = /\((\d+:\d+)\)$/
       const matchTime = currentState.match(matchTimeRegex)
       if (matchTime) {
-        timeInfo = ` (${matchTime[1]})`
+        stateTime = matchTime[1]
         currentState = currentState.replace(matchTimeRegex, '').trim()
       }
       
-      // 翻译状态
-      let translatedState = translate(currentState)
-      
-      // 如果找到了时间信息，添加回去
-      if (timeInfo) {
-        translatedState += timeInfo
-      }
-      
       return {
         name: globalData.name,
         uid: globalData.uid,
@@ -690,70 +4024,85 @@ export function apply(ctx: Context, config: Config) {
         level: globalData.level,
         toNextLevelPercent: globalData.toNextLevelPercent,
         rankScore: rankData.rankScore || 0,
-        rankName: translate(rankData.rankName || 'Unranked'),
+        rankName: rankData.rankName || 'Unranked',
         rankDiv: rankData.rankDiv || 0,
+        rankedSeason: rankData.rankedSeason || '', // 当前排位赛季，例如 season22_split_1
         globalRankPercent: globalRankPercent,
-        isOnline: isOnlineStatus,
+        isOnline: realtimeData.isOnline === 1,
         selectedLegend: selectedLegend,
-        legendStats: legendStats,  // 添加英雄击杀排名数据
-        currentState: translatedState,
+        legendStats: legendStats,  // 当前英雄的追踪器数据
+        allLegendStats: allLegendStats,
+        currentState: currentState, // 英文状态，显示时再翻译
+        stateTime: stateTime,
         // 添加一个字段来标识玩家是否在大厅或比赛中
-        isInLobbyOrMatch: containsPattern(translatedState, '大厅') || containsPattern(translatedState, '比赛')
+        isInLobbyOrMatch: containsPattern(currentState, 'lobby') || containsPattern(currentState, 'match'),
+        isInMatch: containsPattern(currentState, 'match'),
+        // 响应本身有问题时的原因（API 以 HTTP 200 返回的错误、缺少段位数据），以及原始响应，便于诊断
+        anomaly: data.Error ? `API 返回错误: ${data.Error}` : !globalData.rank ? '响应缺少段位数据' : null,
+        raw: data
       }
     } catch (error) {
-      ctx.logger.error('API 请求失败:', error)
-      throw new Error('获取玩家数据失败，请检查网络连接或API密钥')
+      // 统一转换为分类后的错误，由调用方决定提示内容和日志
+      throw toSafeApiError(error)
     }
   }
   
+  // 按错误类型生成提示，未分类的错误返回 null，由调用方使用原有的提示
+  // 全局数据的请求没有玩家，不传 playerName 和 platform
+  function formatApiError(locale: string, error: any, playerName?: string, platform?: Platform): string | null {
+    if (!(error instanceof ApiError) || !error.code) return null
+    return t(locale, `error.${error.code}`, { name: playerName, platform: platformNames[platform] })
+  }
+  
   // 获取段位显示文本
-  function getRankDisplayText(playerData) {
-    const rankDisplay = playerData.rankDiv !== 0 ? `${playerData.rankName} ${playerData.rankDiv}` : playerData.rankName
-    return `${rankDisplay} (${playerData.rankScore}分)`
+  function getRankDisplayText(locale: string, playerData: { rankName: string, rankDiv: number, rankScore: number }) {
+    return t(locale, 'rank-score', { rank: formatRank(locale, playerData), score: playerData.rankScore })
   }
   
   // 格式化玩家段位文本
-  function formatPlayerRankText(playerData) {
+  function formatPlayerRankText(locale: string, playerData: PlayerStats) {
     const now = new Date()
     const dateStr = `${now.getFullYear()}/${String(now.getMonth() + 1).padStart(2, '0')}/${String(now.getDate()).padStart(2, '0')} ${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}:${String(now.getSeconds()).padStart(2, '0')}`
     
-    const rankDisplay = playerData.rankDiv !== 0 ? `${playerData.rankName} ${playerData.rankDiv}` : playerData.rankName
-    
-    let message = `📊 Apex 段位信息\n`
-    message += `📅 ${dateStr}\n`
-    message += `👤 ${playerData.name}\n`
-    message += `🏆 段位：${rankDisplay}\n`
-    message += `🔢 分数：${playerData.rankScore}\n`
+    let message = t(locale, 'card.title') + '\n'
+    message += t(locale, 'card.time', { time: dateStr }) + '\n'
+    message += t(locale, 'card.player', { name: playerData.name }) + '\n'
+    message += t(locale, 'card.platform', { platform: platformNames[playerData.platform] || playerData.platform }) + '\n'
+    message += t(locale, 'card.rank', { rank: formatRank(locale, playerData) }) + '\n'
+    message += t(locale, 'card.score', { score: playerData.rankScore }) + '\n'
     
     if (playerData.globalRankPercent && playerData.globalRankPercent !== '未知') {
-      message += `🌎 全球排名：${playerData.globalRankPercent}%\n`
+      message += t(locale, 'card.global-rank', { percent: playerData.globalRankPercent }) + '\n'
     }
     
-    message += `👑 等级：${playerData.level}\n`
+    message += t(locale, 'card.level', { level: playerData.level }) + '\n'
     
     // 只有在玩家在线时才显示在线状态
-    if (playerData.isOnline === '在线') {
-      message += `🎮 在线状态：${playerData.isOnline}\n`
+    if (playerData.isOnline) {
+      message += t(locale, 'card.online') + '\n'
       
       // 只有在玩家在线时才显示当前使用的英雄
       if (playerData.selectedLegend) {
-        message += `🎯 当前英雄：${playerData.selectedLegend}\n`
+        message += t(locale, 'card.legend', { legend: translateName(locale, playerData.selectedLegend) }) + '\n'
         
-        // 显示英雄击杀排名（如果有）
-        if (playerData.legendStats && playerData.legendStats.kills) {
-          message += `📊 击杀排名：全球 ${playerData.legendStats.kills.globalPercent}%\n`
+        // 显示英雄击杀、伤害、胜场排名（如果有）
+        for (const category of trackerCategories) {
+          const percent = playerData.legendStats?.[category]?.globalPercent
+          if (percent) {
+            message += t(locale, `card.${category}-rank`, { percent }) + '\n'
+          }
         }
       }
       
       // 只有在玩家在大厅或比赛中时才显示当前状态
       if (playerData.isInLobbyOrMatch) {
-        message += `🎯 当前状态：${playerData.currentState}`
+        message += t(locale, 'card.state', { state: formatState(locale, playerData) })
       }
     } else {
       // 玩家离线时只显示离线状态
-      message += `🎮 在线状态：${playerData.isOnline}`
+      message += t(locale, 'card.offline')
     }
     
-    return message
+    return message.trimEnd()
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,536 @@
+// English locale
+// Legend, rank and map names from the API are already English, so names only lists the ones displayed differently
+export default {
+  commands: {
+    apextest: { description: 'Test the plugin and group message delivery' },
+    apexrankhelp: { description: 'Show help for the Apex rank watcher' },
+    apexrank: { description: 'Look up a player\'s rank, RP and status' },
+    apexrankwatch: { description: 'Watch a player\'s RP changes in this group' },
+    apexranklist: { description: 'List the players watched in this group' },
+    apexrankremove: { description: 'Stop watching a player in this group' },
+    apexrankhistory: { description: 'Show a player\'s RP history' },
+    apexrankchart: { description: 'Show a chart of a player\'s RP' },
+    apexrankboard: { description: 'Show this group\'s leaderboard' },
+    apexrankseason: { description: 'Show the final ranks of past seasons' },
+    apexrankmode: { description: 'Set this group\'s notification mode' },
+    apexrankfilter: { description: 'Set this group\'s notification filter' },
+    apexrankonline: { description: 'Toggle online notifications for this group' },
+    apexranklocale: { description: 'Set this group\'s message language' },
+    apexbind: { description: 'Link your Apex account' },
+    apexunbind: { description: 'Unlink your Apex account' },
+    apexmap: { description: 'Show the map rotation' },
+    apexcraft: { description: 'Show the replicator rotation' },
+    apexpred: { description: 'Show the Predator RP cap for each platform' },
+    apexcompare: { description: 'Compare the ranks and stats of two players' },
+    apexlegend: { description: 'Show a player\'s legend trackers' },
+    apexrankadmin: { description: 'Manage watches in all groups' },
+    apexblacklist: { description: 'Manage the blacklist' }
+  },
+  apexrankwatch: {
+    names: {
+      // States
+      'offline': 'Offline',
+      'online': 'Online',
+      'inLobby': 'In lobby',
+      'in Lobby': 'In lobby',
+      'inMatch': 'In match',
+      'in Match': 'In match',
+      // Stats
+      'kills': 'Kills',
+      'wins': 'Wins',
+      'damage': 'Damage',
+      // Replicator items
+      'extended_light_mag': 'Extended Light Mag',
+      'extended_heavy_mag': 'Extended Heavy Mag',
+      'extended_energy_mag': 'Extended Energy Mag',
+      'extended_sniper_mag': 'Extended Sniper Mag',
+      'shotgun_bolt': 'Shotgun Bolt',
+      'barrel_stabilizer': 'Barrel Stabilizer',
+      'laser_sight': 'Laser Sight',
+      'standard_stock': 'Standard Stock',
+      'sniper_stock': 'Sniper Stock',
+      'backpack': 'Backpack',
+      'helmet': 'Helmet',
+      'knockdown_shield': 'Knockdown Shield',
+      'mobile_respawn_beacon': 'Mobile Respawn Beacon',
+      'optic_hcog_bruiser': '2x HCOG "Bruiser"',
+      'optic_hcog_ranger': '3x HCOG "Ranger"',
+      'optic_variable_aog': '2x-4x Variable AOG',
+      'optic_variable_sniper': '4x-8x Variable Sniper',
+      'optic_digital_threat': '1x Digital Threat'
+    },
+    'rank-score': '{rank} ({score} RP)',
+    'separator': ', ',
+    card: {
+      'title': '📊 Apex Rank',
+      'time': '📅 {time}',
+      'player': '👤 {name}',
+      'platform': '🖥️ Platform: {platform}',
+      'rank': '🏆 Rank: {rank}',
+      'score': '🔢 RP: {score}',
+      'global-rank': '🌎 Global: top {percent}%',
+      'level': '👑 Level: {level}',
+      'online': '🎮 Status: online',
+      'offline': '🎮 Status: offline',
+      'legend': '🎯 Legend: {legend}',
+      'kills-rank': '📊 Kills: top {percent}% globally',
+      'damage-rank': '📊 Damage: top {percent}% globally',
+      'wins-rank': '📊 Wins: top {percent}% globally',
+      'state': '🎯 Activity: {state}'
+    },
+    list: {
+      'empty': 'No players are being watched in this group',
+      'title': '📋 Apex players watched in this group',
+      'player': '{index}. 👤 {name}',
+      'platform': '   🖥️ Platform: {platform}',
+      'rank': '   🏆 Rank: {rank}',
+      'score': '   🔢 RP: {score}',
+      'predator-gap': '   👑 To Predator: {gap} RP (cap {threshold})',
+      'global-rank': '   🌎 Global: top {percent}%',
+      'legend': '   🎮 Legend: {legend}',
+      'kills-rank': '   📊 Kills: top {percent}% globally',
+      'paused': '   ⏸️ Paused (player not found)',
+      'footer': 'Total: {count} players\nCheck interval: {interval} min\nSuspicious readings: a change of more than {maxChange} RP or a score below {minScore} RP is only announced after the next check confirms it'
+    },
+    notify: {
+      'banner': {
+        'predatorEnter': '🔥🔥🔥 Congratulations, {name} is now an Apex Predator! 🔥🔥🔥',
+        'predatorLeave': '💔 {name} dropped out of Apex Predator ({oldRank} → {newRank})',
+        'tierUp': '🎉🎉 Promoted! {name}: {oldRank} → {newRank}',
+        'tierDown': '😱 Demoted! {name}: {oldRank} → {newRank}',
+        'divisionUp': '⬆️ Division up: {oldRank} → {newRank}',
+        'divisionDown': '⬇️ Division down: {oldRank} → {newRank}'
+      },
+      'score-change': {
+        'title': '📈 Apex RP change',
+        'time': '📅 {time}',
+        'player': '👤 {name}',
+        'old-score': '🔢 Previous RP: {score}',
+        'new-score': '🔢 Current RP: {score}',
+        'rank': '🏆 Rank: {rank}',
+        'diff-up': '📊 Change: +{diff} RP',
+        'diff-down': '📊 Change: -{diff} RP',
+        'diff-none': '📊 Change: none',
+        'season-reset': '⚠️ Note: a large drop was detected, probably a season reset',
+        'global-rank': '🌎 Global: top {percent}%',
+        'legend': '🎮 Legend: {legend}',
+        'kills-rank': '📊 Kills: top {percent}% globally',
+        'damage-rank': '📊 Damage: top {percent}% globally',
+        'wins-rank': '📊 Wins: top {percent}% globally',
+        'state': '🎯 Activity: {state}'
+      },
+      'rename': '📝 Apex player renamed\n👤 {oldName} is now {newName}\nThe watch continues under the new name',
+      'paused': '⏸️ Player {name} ({platformName}) was not found {count} times in a row, so the watch is paused\nOnce the name and platform are confirmed, use /apexrankwatch {name} -p {platform} to resume it',
+      'online': '🟢 {name} is online\n🏆 Rank: {rank} ({score} RP)',
+      'online-state': '🎯 Activity: {state}',
+      'session': {
+        'title': '🏁 {name}\'s session summary',
+        'period': '⏱️ {start} - {end} (about {minutes} min)',
+        'matches': '🎮 Estimated matches: {count}',
+        'score': '🔢 RP: {start} → {end}, net {diff}',
+        'rank-path': '🏆 Rank: {ranks}',
+        'rank': '🏆 Rank: {rank}',
+        'legends': '🦸 Legends played: {legends}'
+      },
+      'predator': {
+        'near': '🔥 {name} is only {gap} RP away from Apex Predator!',
+        'reached': '🔥 {name} has reached the Predator cap, waiting for the leaderboard to update',
+        'score': '🔢 Current RP: {score}',
+        'threshold': '👑 {platform} Predator cap: {threshold}'
+      },
+      'batch': {
+        'title': '📈 Apex RP changes',
+        'period': '📅 {day} {start} - {end}',
+        'player': '👤 {name}',
+        'score': '   🔢 {start} → {end} ({diff}), {count} changes',
+        'rank': '   🏆 Rank: {rank}'
+      },
+      'digest': {
+        'title': '📰 Apex daily digest ({day})',
+        'player': '👤 {name}',
+        'no-change': '   🔢 {score}, no changes today',
+        'score': '   🔢 {start} → {end}, net {diff}',
+        'matches': '   🎮 Estimated matches: {count}'
+      }
+    },
+    error: {
+      'player-not-found': 'Player {name} ({platform}) was not found, please check the name and platform',
+      'invalid-api-key': 'The API key is invalid or expired, please ask an administrator to check the plugin config',
+      'rate-limited': 'Too many API requests, please try again later',
+      'upstream-unavailable': 'The Apex API is temporarily unavailable, please try again later',
+      'timeout': 'The API request timed out, please try again later'
+    },
+    compare: {
+      'title': '⚔️ Apex head-to-head: {a} vs {b}',
+      'row': '{icon} {label}: {a} | {b}',
+      'labels': {
+        'rank': 'Rank',
+        'score': 'RP',
+        'global-rank': 'Global',
+        'level': 'Level',
+        'legend': 'Legend',
+        'kills-rank': 'Legend kills',
+        'week': 'RP change (7 days)'
+      },
+      'percent': 'top {percent}%',
+      'none': '-',
+      'no-history': 'no record',
+      'leader': '🏅 {name} leads by {diff} RP',
+      'tie': '🤝 Both players have the same RP',
+      'vs': 'VS',
+      'need-players': 'Please give two player names, e.g. /apexcompare moeneri hal',
+      'same-player': 'Please give two different players'
+    },
+    legend: {
+      'title': '🦸 {name}\'s legends by {tracker}',
+      'entry': '{index}. {legend}: {value}',
+      'detail-title': '🦸 {name} · {legend}',
+      'tracker': '   {tracker}: {value}',
+      'percent': ' (top {percent}%)',
+      'empty': 'No legend trackers found for {name}\n(the API only returns trackers equipped on the player\'s banners)',
+      'no-legend': 'No {legend} trackers found for {name}\n(the API only returns trackers equipped on the player\'s banners)',
+      'no-tracker': 'None of {name}\'s legends have a {tracker} tracker',
+      'need-player': 'Please give a player name, e.g. /apexlegend moeneri',
+      'unknown-tracker': 'Unknown tracker: {tracker}, available: {available}'
+    },
+    season: {
+      'name': 'Season {season} Split {split}',
+      'entry': '{medal} {index}. {name}  {rank}  {score} RP',
+      'recap-title': '🏁 {season} has ended, final ranks of this group',
+      'recap-footer': '🆕 {season} has started, RP changes are tracked from the new season',
+      'archive-title': '🗄️ {season} final ranks of this group',
+      'current': '📅 Current season: {season}',
+      'available': 'Archived seasons: {seasons}',
+      'empty': 'No seasons archived for this group yet; final ranks of watched players are archived when a season ends',
+      'not-found': 'No archive of {season} for this group',
+      'failed': 'Failed to load the season archive: {message}'
+    },
+    locale: {
+      'current': 'Message language of this group: {locale}\nAvailable: {available}',
+      'default': 'default',
+      'set': 'Message language of this group set to {locale}',
+      'reset': 'This group now uses the default message language',
+      'unknown': 'Unknown language: {locale}, available: {available}'
+    },
+    common: {
+      'group-only': 'This command only works in group chats',
+      'unknown-platform': 'Unknown platform: {platform}, available: PC / PS4 / X1 / SWITCH',
+      'below-min-score': '{name} returned {score} RP, below the minimum valid score of {minScore}; this is probably an API error, please try again later',
+      'query-failed': 'Lookup failed: {message}\nThis may be a network problem or an invalid API key, please try again later',
+      'unknown-error': 'unknown error',
+      'quota-group': 'This group already watches the maximum of {max} players, please remove one first',
+      'quota-total': 'The bot already watches the maximum of {max} players, please contact an administrator',
+      'blacklisted': {
+        'query': '⛔ {name} has been blacklisted by an administrator and cannot be looked up',
+        'watch': '⛔ {name} has been blacklisted by an administrator and cannot be watched',
+        'bind': '⛔ {name} has been blacklisted by an administrator and cannot be linked'
+      },
+      'blacklist-reason': 'Reason: {reason}',
+      'no-subscriptions': 'No players are being watched in this group, please watch a player first'
+    },
+    time: {
+      'days': '{days}d',
+      'days-hours': '{days}d {hours}h',
+      'hours': '{hours}h',
+      'hours-minutes': '{hours}h {minutes}m',
+      'minutes': '{minutes}m',
+      'remaining': ' ({time} left)'
+    },
+    test: {
+      'message': '✅ Apex Rank Watch test message',
+      'sent': '✅ Apex Rank Watch is running, a test message was sent to this group',
+      'send-failed': '✅ Apex Rank Watch is running, but sending a message failed; please check that the bot is online',
+      'running': '✅ Apex Rank Watch is running'
+    },
+    query: {
+      'need-player': 'Please give a player name, e.g. /apexrank moeneri\nYou can also link your account first, e.g. /apexbind moeneri'
+    },
+    watch: {
+      'need-player': 'Please give the player to watch, e.g. /apexrankwatch moeneri\nYou can also link your account first, e.g. /apexbind moeneri',
+      'exists': 'This group is already watching {name} ({platform})',
+      'exists-renamed': 'This group is already watching this player (recorded as {name})',
+      'resumed': 'Resumed watching {name} ({platform})!\nCurrent rank: {rank}',
+      'test-message': '✅ Test message: now watching {name} ({platform})',
+      'added': 'Now watching {name} ({platform})!\nCurrent rank: {rank}',
+      'failed': 'Failed to watch the player: {message}\nThis may be a network problem or an invalid API key, please try again later'
+    },
+    remove: {
+      'need-player': 'Please give the player to stop watching, e.g. /apexrankremove moeneri',
+      'not-watched': 'This group is not watching {name}',
+      'not-watched-platform': 'This group is not watching {name} ({platform})',
+      'others': 'This watch was added by another member; removing it requires authority {authority}',
+      'removed': 'Stopped watching {name} ({platform}) in this group'
+    },
+    history: {
+      'need-player': 'Please give a player name, e.g. /apexrankhistory moeneri',
+      'unknown-season': 'The current season of {name} is unknown, please give a season, e.g. /apexrankhistory {name} --season 22',
+      'season-raw': 'season {season}',
+      'days': 'the last {days} days',
+      'empty': '{name} has no RP changes in {range}\n(only changes of watched players are recorded)',
+      'title': '📜 {name}\'s RP history, {range}',
+      'day': '📅 {day}  net {diff}',
+      'total': '📊 Total: {start} → {end}, net {diff} RP',
+      'failed': 'Failed to load the RP history: {message}'
+    },
+    chart: {
+      'title': '{name} · Ranked RP · {days}d',
+      'change': '{first} → {last} ({diff} RP)',
+      'need-player': 'Please give a player name, e.g. /apexrankchart moeneri',
+      'not-enough': 'Not enough RP history for {name} in the last {days} days to draw a chart\n(only changes of watched players are recorded)',
+      'failed': 'Sending the chart failed, and so did the text fallback: {message}'
+    },
+    board: {
+      'windows': {
+        'today': 'today',
+        'week': 'last 7 days',
+        'season': 'this season'
+      },
+      'title': '🏆 Apex leaderboard of this group ({window})',
+      'entry': '{medal} {index}. {name}  {rank}  {score} RP',
+      'climber': '📈 Top climber: {name} {diff}',
+      'loser': '📉 Biggest drop: {name} {diff}',
+      'no-change': 'No RP changes ({window})',
+      'unknown-window': 'Unknown period: {window}, available: today / week / season',
+      'failed': 'Failed to build the leaderboard: {message}',
+      'weekly': '📅 Weekly leaderboard'
+    },
+    mode: {
+      'names': {
+        'realtime': 'real-time notifications',
+        'batched': 'batched notifications',
+        'digest': 'daily digest'
+      },
+      'current': 'Notification mode of this group: {name} ({mode})',
+      'batch-interval': 'Batch interval: {minutes} min',
+      'digest-time': 'Sent daily at {time}',
+      'unknown': 'Unknown notification mode: {mode}, available: realtime / batched / digest',
+      'set-batched': 'Switched to {name}; RP changes are sent together every {minutes} min',
+      'set-digest': 'Switched to {name}; a summary of the day is sent daily at {time}',
+      'set-realtime': 'Switched to {name}; RP changes are sent immediately'
+    },
+    filter: {
+      'names': {
+        'all': 'every RP change',
+        'division': 'division and tier changes only',
+        'tier': 'tier changes only'
+      },
+      'current': 'Notification filter of this group: {name} ({filter})',
+      'min-diff': 'Minimum change: {diff} RP',
+      'always': 'Promotions, demotions and entering or leaving Predator are always sent',
+      'unknown': 'Unknown notification filter: {filter}, available: all / division / tier',
+      'set': 'Notification filter of this group set to {name}',
+      'set-min-diff': 'Notification filter of this group set to {name}, for changes of at least {diff} RP'
+    },
+    online: {
+      'status-on': 'Online notifications in this group: on\nSession summaries are always sent (except in daily digest mode)',
+      'status-off': 'Online notifications in this group: off\nSession summaries are always sent (except in daily digest mode)',
+      'unknown': 'Unknown argument: {value}, available: on / off',
+      'enabled': 'Online notifications enabled; the group is told when a watched player comes online',
+      'disabled': 'Online notifications disabled'
+    },
+    bind: {
+      'need-player': 'Please give the player to link, e.g. /apexbind moeneri',
+      'bound': 'Linked Apex account {name} ({platform})\nCurrent rank: {rank}\n/apexrank and /apexrankwatch now work without a player name',
+      'failed': 'Linking failed: {message}\nPlease check the player name and platform'
+    },
+    unbind: {
+      'not-bound': 'You have not linked an Apex account',
+      'unbound': 'Unlinked {name} ({platform})'
+    },
+    map: {
+      'title': '🗺️ Apex map rotation',
+      'current': '{mode}: {map}',
+      'next': '   Next: {map}',
+      'unavailable': 'The map rotation is not available right now, please try again later',
+      'rotated': '🗺️ The ranked map has rotated',
+      'failed': 'Failed to load the map rotation: {message}'
+    },
+    craft: {
+      'title': '🛠️ Replicator rotation',
+      'daily': '📅 Daily',
+      'weekly': '📅 Weekly',
+      'item': '   {name} ({cost} materials)',
+      'failed': 'Failed to load the replicator rotation: {message}'
+    },
+    pred: {
+      'title': '👑 Apex Predator cap',
+      'entry': '🖥️ {platform}: {score} RP',
+      'masters': ' ({count} Master and Predator players)',
+      'updated': '🕒 Updated {day} {time}',
+      'failed': 'Failed to load the Predator cap: {message}'
+    },
+    admin: {
+      'group-empty': 'Group {group} is not watching any players',
+      'list': {
+        'empty': 'No group is watching any players',
+        'summary-title': '📋 Watches per group',
+        'group': 'Group {group}: {count} players',
+        'total': 'Total: {groups} groups, {total} watches',
+        'limit': ' (limit {max})',
+        'title': '📋 Players watched in group {group}',
+        'entry': '{index}. {name} ({platform}) {score} RP',
+        'added-by': '   Added by {user}',
+        'added-at': ', {day} {time}'
+      },
+      'status': {
+        'title': '⚙️ Polling scheduler',
+        'running': 'State: checking',
+        'idle': 'State: idle',
+        'source': 'Data source: {source}',
+        'mock': 'local mock data ({file})',
+        'interval': 'Check interval: {minutes} min',
+        'offline-interval': ' ({minutes} min for offline players)',
+        'players': 'Watched players: {count} (merged), {online} online, {offline} offline',
+        'last-cycle': 'Last cycle: started {day} {time}, {count} players checked',
+        'duration': ', took {seconds}s',
+        'next-cycle': 'Next cycle: in {seconds}s',
+        'rate-limit': 'Rate limit: {rate} per second, {tokens} tokens available',
+        'paused': '⚠️ Paused by the rate limiter, resuming in {seconds}s',
+        'requests': 'Requests: {total} total, {limited} rate limited',
+        'cache': 'Cache entries: {count}',
+        'quarantined': 'Suspicious readings awaiting confirmation: {count}'
+      },
+      'bindings': {
+        'empty': 'No user has linked an Apex account',
+        'not-bound': 'No user has linked {name}',
+        'title': '🔗 Linked accounts',
+        'entry': '{user} → {name} ({platform}), {day}',
+        'total': 'Total: {count} links'
+      },
+      'clear': {
+        'need-group': 'Please give a group, e.g. /apexrankadmin.clear onebot:123456789',
+        'not-watched': 'Group {group} is not watching {name} ({platform})',
+        'removed': 'Group {group} stopped watching {name} ({platform})',
+        'cleared': 'Cleared {count} watches of group {group}'
+      }
+    },
+    blacklist: {
+      'scopes': {
+        'group': 'group',
+        'global': 'global'
+      },
+      'sections': {
+        'config': 'Plugin config:',
+        'global': 'Global:',
+        'group': 'This group:'
+      },
+      'empty': 'The blacklist is empty',
+      'title': '⛔ Apex blacklist',
+      'added-at': ' ({day})',
+      'unknown-action': 'Unknown action: {action}, available: add / remove / list',
+      'need-player': 'Please give a player name, e.g. /apexblacklist {action} moeneri',
+      'exists': '{name} is already on the {scope} blacklist',
+      'added': 'Added {name} to the {scope} blacklist',
+      'purged': ', removing {count} existing watches',
+      'in-config': '{name} is blacklisted in the plugin config, please remove it there',
+      'not-listed': '{name} is not on the {scope} blacklist',
+      'removed': 'Removed {name} from the {scope} blacklist'
+    },
+    help: {
+      'body': `📋 Apex Rank Watch help
+
+1️⃣ Look up a player:
+   Command: /apexrank [player] [-p platform]
+   Example: /apexrank moeneri -p PS4
+   Shows the player's rank, RP and status; without a player name, your linked account is used
+
+2️⃣ Watch a player:
+   Command: /apexrankwatch [player] [-p platform]
+   Example: /apexrankwatch moeneri -p PS4
+   Notifies this group whenever the player's RP changes
+
+3️⃣ List watched players:
+   Command: /apexranklist
+   Lists the players watched in this group; Master players show their distance to Predator
+
+4️⃣ Stop watching:
+   Command: /apexrankremove &lt;player&gt; [-p platform]
+   Example: /apexrankremove moeneri -p PS4
+   Removes the watch on the player
+
+5️⃣ RP history:
+   Command: /apexrankhistory &lt;player&gt; [--days days] [--season season] [-p platform]
+   Example: /apexrankhistory moeneri --days 3, /apexrankhistory moeneri --season current
+   Shows each RP change of a watched player and the net change per day, optionally for one season
+
+6️⃣ RP chart:
+   Command: /apexrankchart &lt;player&gt; [--days days] [-p platform]
+   Example: /apexrankchart moeneri --days 14
+   Sends a chart of a watched player's RP with rank tiers
+
+7️⃣ Leaderboard:
+   Command: /apexrankboard [today|week|season]
+   Example: /apexrankboard week
+   Ranks the watched players by RP with their changes in the period
+
+8️⃣ Notification mode:
+   Command: /apexrankmode [realtime|batched|digest] [-i minutes]
+   Example: /apexrankmode batched -i 15
+   realtime sends every change, batched merges changes per interval, digest sends a summary daily at {digestTime}
+
+9️⃣ Notification filter:
+   Command: /apexrankfilter [all|division|tier] [-m minimum change]
+   Example: /apexrankfilter all -m 50
+   all notifies every change, division only division changes, tier only tier changes; promotions, demotions and Predator changes are always sent
+
+🔟 Online notifications:
+   Command: /apexrankonline [on|off]
+   Announces watched players coming online; a summary is sent when a session ends
+
+🗄️ Season archive:
+   Command: /apexrankseason [season]
+   Example: /apexrankseason 22-1
+   Shows the final ranks of this group's players in past seasons; a recap is posted when a season ends
+
+🔗 Account linking:
+   Command: /apexbind &lt;player&gt; [platform], /apexunbind
+   Example: /apexbind moeneri PS4
+   After linking, /apexrank and /apexrankwatch work without a player name and you are mentioned when your RP changes
+
+🗺️ Game info:
+   Command: /apexmap, /apexcraft, /apexpred
+   Shows the map rotation, the replicator rotation and the Predator cap per platform
+
+🦸 Legends:
+   Command: /apexlegend &lt;player&gt; [legend] [-t kills|damage|wins] [-p platform]
+   Example: /apexlegend moeneri -t damage, /apexlegend moeneri Wraith
+   Lists the player's best legends by tracker; with a legend, shows all of its trackers
+
+⚔️ Head-to-head:
+   Command: /apexcompare &lt;player A&gt; &lt;player B&gt; [-p platform] [-i]
+   Example: /apexcompare moeneri hal -i
+   Compares rank, RP, global rank, level and legend stats; watched players also show their RP change over the last 7 days; -i sends an image card
+
+🌐 Language:
+   Command: /apexranklocale [zh-CN|en-US|default]
+   Sets the language of lookups, notifications and help in this group
+
+🧪 Test:
+   Command: /apextest
+   Checks that the plugin works and can send messages
+
+🛡️ Admin:
+   Command: /apexrankadmin.list [group], /apexrankadmin.clear &lt;group&gt; [--player player]
+   View or clear the watches of any group (authority {adminAuthority} required)
+   Command: /apexrankadmin.bindings [player]
+   View the Apex accounts linked by users
+   Command: /apexrankadmin.status
+   View the polling scheduler, rate limiter and cache
+   Command: /apexblacklist &lt;add|remove|list&gt; [player] [reason] [-g]
+   Manage this group's or the global (-g) blacklist; blacklisting removes existing watches
+
+📝 Arguments:
+   &lt;player&gt;: the player's Apex Legends ID
+   [-p platform]: optional, PC / PS4 / X1 / SWITCH, default {defaultPlatform}
+
+⏱️ Monitoring:
+   Players are checked every {checkInterval} minutes
+   The group is notified whenever a player's RP changes
+   Suspicious readings (a change of more than {maxChange} RP or RP below {minValidScore}) are not announced until the next check confirms them
+   Readings with an API error or without rank data are always ignored`,
+      'blacklist': `⚠️ Blacklist:
+   {count} IDs are blacklisted globally
+   Blacklisted IDs cannot be looked up or watched`
+    }
+  }
+}
@@ -0,0 +1,606 @@
+// 简体中文语言包
+// names 以 API 返回的英文名称为键，同时也是英雄名称的参考词典：不在其中的英雄名会记录日志
+export default {
+  commands: {
+    apextest: { description: '测试插件及群消息发送' },
+    apexrankhelp: { description: '查看 Apex 段位监控插件的帮助' },
+    apexrank: { description: '查询玩家的段位、分数和状态' },
+    apexrankwatch: { description: '在本群监控玩家的分数变化' },
+    apexranklist: { description: '查看本群的监控列表' },
+    apexrankremove: { description: '移除本群对玩家的监控' },
+    apexrankhistory: { description: '查看玩家的分数变化记录' },
+    apexrankchart: { description: '查看玩家的分数走势图' },
+    apexrankboard: { description: '查看本群排行榜' },
+    apexrankseason: { description: '查看本群玩家的赛季最终段位' },
+    apexrankmode: { description: '设置本群的通知模式' },
+    apexrankfilter: { description: '设置本群的通知规则' },
+    apexrankonline: { description: '开关本群的上线通知' },
+    apexranklocale: { description: '设置本群的消息语言' },
+    apexbind: { description: '绑定自己的 Apex 账号' },
+    apexunbind: { description: '解除 Apex 账号绑定' },
+    apexmap: { description: '查看地图轮换' },
+    apexcraft: { description: '查看合成器轮换' },
+    apexpred: { description: '查看各平台猎杀者分数线' },
+    apexcompare: { description: '对比两名玩家的段位和数据' },
+    apexlegend: { description: '查看玩家的英雄追踪器数据' },
+    apexrankadmin: { description: '管理所有群的监控' },
+    apexblacklist: { description: '管理黑名单' }
+  },
+  apexrankwatch: {
+    names: {
+      // 段位
+      'Unranked': '菜鸟',
+      'Rookie': '菜鸟',
+      'Bronze': '青铜',
+      'Silver': '白银',
+      'Gold': '黄金',
+      'Platinum': '白金',
+      'Diamond': '钻石',
+      'Master': '大师',
+      'Apex Predator': 'Apex 猎杀者',
+      // 状态
+      'offline': '离线',
+      'online': '在线',
+      'inLobby': '在大厅',
+      'in Lobby': '在大厅',
+      'In lobby': '在大厅',
+      'inMatch': '比赛中',
+      'in Match': '比赛中',
+      'In match': '比赛中',
+      'Offline': '离线',
+      'Online': '在线',
+      // 英雄
+      'Bloodhound': '寻血猎犬',
+      'Gibraltar': '直布罗陀',
+      'Lifeline': '命脉',
+      'Pathfinder': '探路者',
+      'Wraith': '恶灵',
+      'Bangalore': '班加罗尔',
+      'Caustic': '侵蚀',
+      'Mirage': '幻象',
+      'Octane': '动力小子',
+      'Wattson': '沃特森',
+      'Crypto': '密客',
+      'Revenant': '亡灵',
+      'Loba': '罗芭',
+      'Rampart': '兰伯特',
+      'Horizon': '地平线',
+      'Fuse': '暴雷',
+      'Valkyrie': '瓦尔基里',
+      'Seer': '希尔',
+      'Ash': '艾许',
+      'Mad Maggie': '疯玛吉',
+      'Newcastle': '纽卡斯尔',
+      'Vantage': '万蒂奇',
+      'Catalyst': '卡特莉丝',
+      'Ballistic': '弹道',
+      'Conduit': '导管',
+      'Alter': '变幻',
+      'Sparrow': '琉雀',
+      // 统计数据
+      'BR Kills': '击杀数',
+      'BR Wins': '胜场数',
+      'BR Damage': '造成伤害',
+      'Special event kills': '活动击杀数',
+      'Special event wins': '活动胜场数',
+      'Special event damage': '活动伤害',
+      'kills': '击杀数',
+      'wins': '胜场数',
+      'damage': '造成伤害',
+      // 地图
+      'Kings Canyon': '诸王峡谷',
+      'World\'s Edge': '世界尽头',
+      'Olympus': '奥林匹斯',
+      'Storm Point': '风暴点',
+      'Broken Moon': '残月',
+      'E-District': 'E区',
+      'Habitat': '栖息地',
+      'Skull Town': '骷髅镇',
+      'Fragment': '碎片区',
+      'Estates': '庄园',
+      'Party Crasher': '派对破坏者',
+      'Phase Runner': '相位穿梭',
+      'Overflow': '溢流',
+      'Thunderdome': '雷霆穹顶',
+      // 模式
+      'Battle Royale': '大逃杀',
+      'Ranked': '排位',
+      'Mixtape': '混合模式',
+      'Control': '控制',
+      'Gun Run': '枪王竞赛',
+      'Team Deathmatch': '团队死斗',
+      // 合成器物品
+      'extended_light_mag': '加长轻型弹匣',
+      'extended_heavy_mag': '加长重型弹匣',
+      'extended_energy_mag': '加长能量弹匣',
+      'extended_sniper_mag': '加长狙击弹匣',
+      'shotgun_bolt': '霰弹枪枪栓',
+      'barrel_stabilizer': '枪管稳定器',
+      'laser_sight': '激光瞄准器',
+      'standard_stock': '标准枪托',
+      'sniper_stock': '狙击枪托',
+      'backpack': '背包',
+      'helmet': '头盔',
+      'knockdown_shield': '击倒护盾',
+      'mobile_respawn_beacon': '移动重生信标',
+      'optic_hcog_bruiser': '2倍全息衍射式瞄准镜',
+      'optic_hcog_ranger': '3倍全息衍射式瞄准镜',
+      'optic_variable_aog': '2-4倍可调节式高级光学瞄准镜',
+      'optic_variable_sniper': '4-8倍可调节式狙击瞄准镜',
+      'optic_digital_threat': '1倍数字化威胁'
+    },
+    'rank-score': '{rank} ({score}分)',
+    'separator': '、',
+    card: {
+      'title': '📊 Apex 段位信息',
+      'time': '📅 {time}',
+      'player': '👤 {name}',
+      'platform': '🖥️ 平台：{platform}',
+      'rank': '🏆 段位：{rank}',
+      'score': '🔢 分数：{score}',
+      'global-rank': '🌎 全球排名：{percent}%',
+      'level': '👑 等级：{level}',
+      'online': '🎮 在线状态：在线',
+      'offline': '🎮 在线状态：离线',
+      'legend': '🎯 当前英雄：{legend}',
+      'kills-rank': '📊 击杀排名：全球 {percent}%',
+      'damage-rank': '📊 伤害排名：全球 {percent}%',
+      'wins-rank': '📊 胜场排名：全球 {percent}%',
+      'state': '🎯 当前状态：{state}'
+    },
+    list: {
+      'empty': '本群目前没有监控任何玩家的排名',
+      'title': '📋 本群 Apex 排名监控列表',
+      'player': '{index}. 👤 {name}',
+      'platform': '   🖥️ 平台: {platform}',
+      'rank': '   🏆 段位: {rank}',
+      'score': '   🔢 分数: {score}',
+      'predator-gap': '   👑 距离猎杀者: {gap} 分（分数线 {threshold}）',
+      'global-rank': '   🌎 全球排名: {percent}%',
+      'legend': '   🎮 当前英雄: {legend}',
+      'kills-rank': '   📊 击杀排名: 全球 {percent}%',
+      'paused': '   ⏸️ 已暂停监控（查询不到该玩家）',
+      'footer': '总计: {count} 个玩家\n检测间隔: {interval} 分钟\n可疑读数: 单次变化超过 {maxChange} 分或低于 {minScore} 分时，需下次检测确认后才通知'
+    },
+    notify: {
+      'banner': {
+        'predatorEnter': '🔥🔥🔥 恭喜 {name} 成为 Apex 猎杀者！🔥🔥🔥',
+        'predatorLeave': '💔 {name} 跌出了 Apex 猎杀者（{oldRank} → {newRank}）',
+        'tierUp': '🎉🎉 段位晋升！{name}：{oldRank} → {newRank}',
+        'tierDown': '😱 段位降级！{name}：{oldRank} → {newRank}',
+        'divisionUp': '⬆️ 小段晋升：{oldRank} → {newRank}',
+        'divisionDown': '⬇️ 小段下降：{oldRank} → {newRank}'
+      },
+      'score-change': {
+        'title': '📈 Apex 排位分数变化',
+        'time': '📅 {time}',
+        'player': '👤 {name}',
+        'old-score': '🔢 原分数：{score}',
+        'new-score': '🔢 当前分数：{score}',
+        'rank': '🏆 段位：{rank}',
+        'diff-up': '📊 变动：上升 {diff} 分',
+        'diff-down': '📊 变动：下降 {diff} 分',
+        'diff-none': '📊 变动：无变化',
+        'season-reset': '⚠️ 注意：检测到大幅度分数下降，可能是赛季重置导致',
+        'global-rank': '🌎 全球排名：{percent}%',
+        'legend': '🎮 当前英雄：{legend}',
+        'kills-rank': '📊 击杀排名：全球 {percent}%',
+        'damage-rank': '📊 伤害排名：全球 {percent}%',
+        'wins-rank': '📊 胜场排名：全球 {percent}%',
+        'state': '🎯 当前状态：{state}'
+      },
+      'rename': '📝 Apex 玩家改名提醒\n👤 {oldName} 已改名为 {newName}\n监控将继续使用新名称',
+      'paused': '⏸️ 连续 {count} 次查询不到玩家 {name}（{platformName}），已暂停对其的监控\n确认名称和平台无误后，可使用 /apexrankwatch {name} -p {platform} 恢复监控',
+      'online': '🟢 {name} 上线了\n🏆 段位：{rank} ({score}分)',
+      'online-state': '🎯 当前状态：{state}',
+      'session': {
+        'title': '🏁 {name} 本次游戏总结',
+        'period': '⏱️ {start} - {end}（约 {minutes} 分钟）',
+        'matches': '🎮 推测场次：{count} 场',
+        'score': '🔢 分数：{start} → {end}，净变化 {diff} 分',
+        'rank-path': '🏆 段位变化：{ranks}',
+        'rank': '🏆 段位：{rank}',
+        'legends': '🦸 使用英雄：{legends}'
+      },
+      'predator': {
+        'near': '🔥 {name} 距离 Apex 猎杀者只差 {gap} 分！',
+        'reached': '🔥 {name} 的分数已达到猎杀者分数线，等待排行榜更新',
+        'score': '🔢 当前分数：{score}',
+        'threshold': '👑 {platform} 猎杀者分数线：{threshold}'
+      },
+      'batch': {
+        'title': '📈 Apex 排位分数变化汇总',
+        'period': '📅 {day} {start} - {end}',
+        'player': '👤 {name}',
+        'score': '   🔢 {start} → {end} ({diff})，共 {count} 次变化',
+        'rank': '   🏆 段位：{rank}'
+      },
+      'digest': {
+        'title': '📰 Apex 每日摘要（{day}）',
+        'player': '👤 {name}',
+        'no-change': '   🔢 {score}，今日无分数变化',
+        'score': '   🔢 {start} → {end}，净变化 {diff} 分',
+        'matches': '   🎮 推测场次：{count} 场'
+      }
+    },
+    error: {
+      'player-not-found': '找不到玩家 {name}（{platform}），请检查名称和平台是否正确',
+      'invalid-api-key': 'API 密钥无效或已过期，请联系管理员检查插件配置',
+      'rate-limited': 'API 请求过于频繁，请稍后再试',
+      'upstream-unavailable': 'Apex API 服务暂时不可用，请稍后再试',
+      'timeout': 'API 请求超时，请稍后再试'
+    },
+    compare: {
+      'title': '⚔️ Apex 玩家对比：{a} vs {b}',
+      'row': '{icon} {label}：{a} | {b}',
+      'labels': {
+        'rank': '段位',
+        'score': '分数',
+        'global-rank': '全球排名',
+        'level': '等级',
+        'legend': '当前英雄',
+        'kills-rank': '英雄击杀排名',
+        'week': '近7天分数变化'
+      },
+      'percent': '前 {percent}%',
+      'none': '-',
+      'no-history': '无记录',
+      'leader': '🏅 {name} 领先 {diff} 分',
+      'tie': '🤝 两人分数相同',
+      'vs': 'VS',
+      'need-players': '请提供两名玩家的名称，例如: /apexcompare moeneri hal',
+      'same-player': '请提供两名不同的玩家'
+    },
+    legend: {
+      'title': '🦸 {name} 的英雄数据（按{tracker}排序）',
+      'entry': '{index}. {legend}：{value}',
+      'detail-title': '🦸 {name} 的{legend}数据',
+      'tracker': '   {tracker}：{value}',
+      'percent': '（全球前 {percent}%）',
+      'empty': '没有查询到 {name} 的英雄追踪器数据\n（API 只返回玩家在横幅上装备过的追踪器）',
+      'no-legend': '没有查询到 {name} 的{legend}数据\n（API 只返回玩家在横幅上装备过的追踪器）',
+      'no-tracker': '{name} 没有英雄装备{tracker}追踪器',
+      'need-player': '请提供玩家名称，例如: /apexlegend moeneri',
+      'unknown-tracker': '无法识别的追踪器：{tracker}，可选值：{available}'
+    },
+    season: {
+      'name': '第 {season} 赛季第 {split} 阶段',
+      'entry': '{medal} {index}. {name}  {rank}  {score}分',
+      'recap-title': '🏁 {season}已结束，本群玩家最终段位',
+      'recap-footer': '🆕 {season}已开始，分数变化将从新赛季重新记录',
+      'archive-title': '🗄️ {season}本群玩家最终段位',
+      'current': '📅 当前赛季：{season}',
+      'available': '已归档的赛季：{seasons}',
+      'empty': '本群还没有已归档的赛季记录，赛季结束时会自动归档监控玩家的最终段位',
+      'not-found': '本群没有 {season} 的赛季归档',
+      'failed': '查询赛季归档失败: {message}'
+    },
+    locale: {
+      'current': '本群当前的消息语言：{locale}\n可选：{available}',
+      'default': '默认',
+      'set': '已将本群的消息语言设置为 {locale}',
+      'reset': '已恢复本群的默认消息语言',
+      'unknown': '无法识别的语言：{locale}，可选值：{available}'
+    },
+    common: {
+      'group-only': '此命令仅适用于群聊，请在群聊中使用',
+      'unknown-platform': '无法识别的平台：{platform}，可选值：PC / PS4 / X1 / SWITCH',
+      'below-min-score': '查询到 {name} 的分数为 {score}，低于最小有效分数 {minScore}，可能是API错误，请稍后再试',
+      'query-failed': '查询失败: {message}\n可能是网络问题或API密钥无效，请稍后再试',
+      'unknown-error': '未知错误',
+      'quota-group': '本群监控的玩家已达上限（{max} 个），请先移除不需要的监控',
+      'quota-total': '机器人监控的玩家总数已达上限（{max} 个），请联系管理员',
+      'blacklisted': {
+        'query': '⛔ 该ID（{name}）已被管理员加入黑名单，禁止查询',
+        'watch': '⛔ 该ID（{name}）已被管理员加入黑名单，禁止监控',
+        'bind': '⛔ 该ID（{name}）已被管理员加入黑名单，禁止绑定'
+      },
+      'blacklist-reason': '原因：{reason}',
+      'no-subscriptions': '本群目前没有监控任何玩家的排名，请先添加监控'
+    },
+    time: {
+      'days': '{days}天',
+      'days-hours': '{days}天{hours}小时',
+      'hours': '{hours}小时',
+      'hours-minutes': '{hours}小时{minutes}分钟',
+      'minutes': '{minutes}分钟',
+      'remaining': '（剩余 {time}）'
+    },
+    test: {
+      'message': '✅ Apex Legends 排名监控测试消息',
+      'sent': '✅ Apex Legends 排名监控插件正常运行中，已发送测试消息到本群',
+      'send-failed': '✅ Apex Legends 排名监控插件正常运行中，但发送消息失败，请检查机器人是否在线',
+      'running': '✅ Apex Legends 排名监控插件正常运行中'
+    },
+    query: {
+      'need-player': '请提供玩家名称，例如: /apexrank moeneri\n也可以先使用 /apexbind 绑定自己的账号，例如: /apexbind moeneri'
+    },
+    watch: {
+      'need-player': '请提供要监控的玩家名称，例如: /apexrankwatch moeneri\n也可以先使用 /apexbind 绑定自己的账号，例如: /apexbind moeneri',
+      'exists': '本群已经在监控 {name}（{platform}）的排名变化了',
+      'exists-renamed': '本群已经在监控该玩家的排名变化了（当前记录的名称为 {name}）',
+      'resumed': '已恢复对 {name}（{platform}）的排名监控！\n当前排名: {rank}',
+      'test-message': '✅ 测试消息: 已添加对 {name}（{platform}）的排名监控',
+      'added': '成功添加对 {name}（{platform}）的排名监控！\n当前排名: {rank}',
+      'failed': '添加监控失败: {message}\n可能是网络问题或API密钥无效，请稍后再试'
+    },
+    remove: {
+      'need-player': '请提供要移除监控的玩家名称，例如: /apexrankremove moeneri',
+      'not-watched': '本群没有监控 {name} 的排名',
+      'not-watched-platform': '本群没有监控 {name}（{platform}）的排名',
+      'others': '该监控由其他成员添加，移除需要 {authority} 级权限',
+      'removed': '已移除本群对 {name}（{platform}）的排名监控'
+    },
+    history: {
+      'need-player': '请提供玩家名称，例如: /apexrankhistory moeneri',
+      'unknown-season': '无法确定 {name} 的当前赛季，请直接指定赛季，例如: /apexrankhistory {name} --season 22',
+      'season-raw': '赛季 {season} ',
+      'days': '最近 {days} 天',
+      'empty': '{name} {range}没有分数变化记录\n（仅记录被监控玩家的分数变化）',
+      'title': '📜 {name} {range}分数记录',
+      'day': '📅 {day}  净变化 {diff}',
+      'total': '📊 总计：{start} → {end}，净变化 {diff} 分',
+      'failed': '查询分数历史失败: {message}'
+    },
+    chart: {
+      'title': '{name} · 排位分数 · {days} 天',
+      'change': '{first} → {last}（{diff} 分）',
+      'need-player': '请提供玩家名称，例如: /apexrankchart moeneri',
+      'not-enough': '{name} 最近 {days} 天的分数记录不足，无法生成走势图\n（仅记录被监控玩家的分数变化）',
+      'failed': '走势图发送失败，查询文字信息也失败: {message}'
+    },
+    board: {
+      'windows': {
+        'today': '今日',
+        'week': '近7天',
+        'season': '本赛季'
+      },
+      'title': '🏆 本群 Apex 排行榜（{window}）',
+      'entry': '{medal} {index}. {name}  {rank}  {score}分',
+      'climber': '📈 上分最多：{name} {diff}',
+      'loser': '📉 掉分最多：{name} {diff}',
+      'no-change': '{window}暂无分数变化',
+      'unknown-window': '无法识别的统计范围：{window}，可选值：today / week / season',
+      'failed': '生成排行榜失败: {message}',
+      'weekly': '📅 每周排行榜'
+    },
+    mode: {
+      'names': {
+        'realtime': '实时通知',
+        'batched': '汇总通知',
+        'digest': '每日摘要'
+      },
+      'current': '本群当前通知模式：{name}（{mode}）',
+      'batch-interval': '汇总间隔：{minutes} 分钟',
+      'digest-time': '发送时间：每天 {time}',
+      'unknown': '无法识别的通知模式：{mode}，可选值：realtime / batched / digest',
+      'set-batched': '已切换为{name}，每 {minutes} 分钟汇总发送一次分数变化',
+      'set-digest': '已切换为{name}，每天 {time} 发送一次当日摘要',
+      'set-realtime': '已切换为{name}，分数变化时将立即通知'
+    },
+    filter: {
+      'names': {
+        'all': '所有分数变化',
+        'division': '仅小段及段位变化',
+        'tier': '仅段位变化'
+      },
+      'current': '本群当前通知规则：{name}（{filter}）',
+      'min-diff': '最小通知幅度：{diff} 分',
+      'always': '段位晋升 / 降级、进入 / 跌出猎杀者总会通知',
+      'unknown': '无法识别的通知规则：{filter}，可选值：all / division / tier',
+      'set': '已设置本群通知规则：{name}',
+      'set-min-diff': '已设置本群通知规则：{name}，分数变化达到 {diff} 分才通知'
+    },
+    online: {
+      'status-on': '本群上线通知：已开启\n玩家结束游戏后的总结总会发送（每日摘要模式除外）',
+      'status-off': '本群上线通知：已关闭\n玩家结束游戏后的总结总会发送（每日摘要模式除外）',
+      'unknown': '无法识别的参数：{value}，可选值：on / off',
+      'enabled': '已开启上线通知，监控的玩家上线时会在群内提醒',
+      'disabled': '已关闭上线通知'
+    },
+    bind: {
+      'need-player': '请提供要绑定的玩家名称，例如: /apexbind moeneri',
+      'bound': '已绑定 Apex 账号 {name}（{platform}）\n当前排名: {rank}\n之后可以直接使用 /apexrank 和 /apexrankwatch',
+      'failed': '绑定失败: {message}\n请确认玩家名称和平台是否正确'
+    },
+    unbind: {
+      'not-bound': '你还没有绑定 Apex 账号',
+      'unbound': '已解除与 {name}（{platform}）的绑定'
+    },
+    map: {
+      'title': '🗺️ Apex 地图轮换',
+      'current': '{mode}：{map}',
+      'next': '   下一张：{map}',
+      'unavailable': '暂时无法获取地图轮换信息，请稍后再试',
+      'rotated': '🗺️ 排位地图已轮换',
+      'failed': '获取地图轮换失败: {message}'
+    },
+    craft: {
+      'title': '🛠️ 合成器轮换',
+      'daily': '📅 每日',
+      'weekly': '📅 每周',
+      'item': '   {name}（{cost} 材料）',
+      'failed': '获取合成器轮换失败: {message}'
+    },
+    pred: {
+      'title': '👑 Apex 猎杀者分数线',
+      'entry': '🖥️ {platform}：{score} 分',
+      'masters': '（大师及以上 {count} 人）',
+      'updated': '🕒 更新于 {day} {time}',
+      'failed': '获取猎杀者分数线失败: {message}'
+    },
+    admin: {
+      'group-empty': '群 {group} 没有监控任何玩家',
+      'list': {
+        'empty': '目前没有任何群监控玩家',
+        'summary-title': '📋 各群监控统计',
+        'group': '群 {group}：{count} 个玩家',
+        'total': '总计：{groups} 个群，{total} 个监控',
+        'limit': '（上限 {max}）',
+        'title': '📋 群 {group} 的监控列表',
+        'entry': '{index}. {name}（{platform}）{score}分',
+        'added-by': '   添加者：{user}',
+        'added-at': '，{day} {time}'
+      },
+      'status': {
+        'title': '⚙️ 轮询调度状态',
+        'running': '状态：检测中',
+        'idle': '状态：空闲',
+        'source': '数据源：{source}',
+        'mock': '本地模拟数据（{file}）',
+        'interval': '轮询间隔：{minutes} 分钟',
+        'offline-interval': '（离线玩家 {minutes} 分钟）',
+        'players': '监控玩家：{count} 个（合并后），在线 {online} 个，离线 {offline} 个',
+        'last-cycle': '上一轮：{day} {time} 开始，检测 {count} 个玩家',
+        'duration': '，耗时 {seconds} 秒',
+        'next-cycle': '下一轮：{seconds} 秒后',
+        'rate-limit': '限速：每秒 {rate} 次，当前令牌 {tokens}',
+        'paused': '⚠️ 被限流暂停中，{seconds} 秒后恢复',
+        'requests': '累计请求：{total} 次，被限流 {limited} 次',
+        'cache': '缓存条目：{count} 个',
+        'quarantined': '等待确认的可疑读数：{count} 个'
+      },
+      'bindings': {
+        'empty': '目前没有用户绑定 Apex 账号',
+        'not-bound': '没有用户绑定 {name}',
+        'title': '🔗 账号绑定列表',
+        'entry': '{user} → {name}（{platform}），{day}',
+        'total': '总计：{count} 个绑定'
+      },
+      'clear': {
+        'need-group': '请提供群号，例如: /apexrankadmin.clear onebot:123456789',
+        'not-watched': '群 {group} 没有监控 {name}（{platform}）',
+        'removed': '已移除群 {group} 对 {name}（{platform}）的监控',
+        'cleared': '已清空群 {group} 的 {count} 个监控'
+      }
+    },
+    blacklist: {
+      'scopes': {
+        'group': '本群',
+        'global': '全局'
+      },
+      'sections': {
+        'config': '配置文件：',
+        'global': '全局：',
+        'group': '本群：'
+      },
+      'empty': '黑名单为空',
+      'title': '⛔ Apex 黑名单',
+      'added-at': '（{day}）',
+      'unknown-action': '无法识别的操作：{action}，可选值：add / remove / list',
+      'need-player': '请提供玩家名称，例如: /apexblacklist {action} moeneri',
+      'exists': '{name} 已在{scope}黑名单中',
+      'added': '已将 {name} 加入{scope}黑名单',
+      'purged': '，并移除了 {count} 个现有监控',
+      'in-config': '{name} 位于配置文件的黑名单中，请在插件配置中移除',
+      'not-listed': '{name} 不在{scope}黑名单中',
+      'removed': '已将 {name} 移出{scope}黑名单'
+    },
+    help: {
+      'body': `📋 Apex 段位监控插件使用帮助
+
+1️⃣ 查询玩家段位：
+   命令：/apexrank [玩家名称] [-p 平台]
+   示例：/apexrank moeneri -p PS4
+   说明：查询指定玩家的段位、分数和状态信息，不填玩家名称时查询自己绑定的账号
+
+2️⃣ 添加群监控：
+   命令：/apexrankwatch [玩家名称] [-p 平台]
+   示例：/apexrankwatch moeneri -p PS4
+   说明：添加对指定玩家的段位变化监控，当段位分数变化时会在群内通知
+
+3️⃣ 查看群监控列表：
+   命令：/apexranklist
+   说明：查看当前群内已添加监控的玩家列表，大师玩家会显示距离猎杀者的分数
+
+4️⃣ 移除群监控：
+   命令：/apexrankremove &lt;玩家名称&gt; [-p 平台]
+   示例：/apexrankremove moeneri -p PS4
+   说明：移除对指定玩家的段位监控
+
+5️⃣ 查看分数历史：
+   命令：/apexrankhistory &lt;玩家名称&gt; [--days 天数] [--season 赛季] [-p 平台]
+   示例：/apexrankhistory moeneri --days 3、/apexrankhistory moeneri --season current
+   说明：查看已监控玩家的分数变化记录及每日净变化，可按赛季筛选
+
+6️⃣ 查看分数走势图：
+   命令：/apexrankchart &lt;玩家名称&gt; [--days 天数] [-p 平台]
+   示例：/apexrankchart moeneri --days 14
+   说明：以图片形式展示已监控玩家的分数走势及段位区间
+
+7️⃣ 查看群排行榜：
+   命令：/apexrankboard [today|week|season]
+   示例：/apexrankboard week
+   说明：按当前分数对本群监控的玩家排名，并显示统计范围内的分数变化
+
+8️⃣ 切换通知模式：
+   命令：/apexrankmode [realtime|batched|digest] [-i 分钟]
+   示例：/apexrankmode batched -i 15
+   说明：realtime 实时通知，batched 按间隔汇总通知，digest 每天 {digestTime} 发送摘要
+
+9️⃣ 设置通知规则：
+   命令：/apexrankfilter [all|division|tier] [-m 最小分数变化]
+   示例：/apexrankfilter all -m 50
+   说明：all 所有变化，division 仅小段变化，tier 仅段位变化；段位晋升 / 降级及猎杀者变化总会立即通知
+
+🔟 上线通知：
+   命令：/apexrankonline [on|off]
+   说明：开启后监控的玩家上线时会在群内提醒；玩家结束游戏后会发送本次游戏总结
+
+🗄️ 赛季归档：
+   命令：/apexrankseason [赛季]
+   示例：/apexrankseason 22-1
+   说明：查看本群玩家在已结束赛季的最终段位，赛季结束时会自动归档并在群内发送赛季总结
+
+🔗 绑定账号：
+   命令：/apexbind &lt;玩家名称&gt; [平台]、/apexunbind
+   示例：/apexbind moeneri PS4
+   说明：绑定后 /apexrank、/apexrankwatch 可省略玩家名称，该账号分数变化时会 @ 你
+
+🗺️ 游戏信息：
+   命令：/apexmap、/apexcraft、/apexpred
+   说明：查看地图轮换、合成器轮换和各平台猎杀者分数线
+
+🦸 英雄数据：
+   命令：/apexlegend &lt;玩家名称&gt; [英雄] [-t kills|damage|wins] [-p 平台]
+   示例：/apexlegend moeneri -t damage、/apexlegend moeneri 恶灵
+   说明：按追踪器列出玩家数据最好的英雄，指定英雄时显示该英雄的全部追踪器
+
+⚔️ 玩家对比：
+   命令：/apexcompare &lt;玩家A&gt; &lt;玩家B&gt; [-p 平台] [-i]
+   示例：/apexcompare moeneri hal -i
+   说明：对比两名玩家的段位、分数、排名、等级和英雄数据，已监控的玩家还会显示近7天分数变化；-i 以图片卡片发送
+
+🌐 消息语言：
+   命令：/apexranklocale [zh-CN|en-US|default]
+   说明：设置本群查询结果、通知和帮助使用的语言
+
+🧪 测试插件：
+   命令：/apextest
+   说明：测试插件是否正常工作及消息发送
+
+🛡️ 管理命令：
+   命令：/apexrankadmin.list [群号]、/apexrankadmin.clear &lt;群号&gt; [--player 玩家名称]
+   说明：查看或清空任意群的监控（需要 {adminAuthority} 级权限）
+   命令：/apexrankadmin.bindings [玩家名称]
+   说明：查看用户绑定的 Apex 账号
+   命令：/apexrankadmin.status
+   说明：查看轮询调度、限速和缓存状态
+   命令：/apexblacklist &lt;add|remove|list&gt; [玩家名称] [原因] [-g]
+   说明：管理本群或全局（-g）黑名单，加入黑名单会同时移除现有监控
+
+📝 参数说明：
+   &lt;玩家名称&gt;：Apex Legends 游戏中的玩家ID
+   [-p 平台]：可选，PC / PS4 / X1 / SWITCH，默认 {defaultPlatform}
+
+⏱️ 监控说明：
+   系统会每 {checkInterval} 分钟检查一次玩家段位变化
+   当玩家段位分数发生变化时，会在群内发送通知
+   可疑读数：单次变化超过 {maxChange} 分或低于 {minValidScore} 分时，下次检测确认前不会通知
+   API 返回错误或缺少段位数据的读数会直接忽略`,
+      'blacklist': `⚠️ 黑名单说明：
+   当前已设置 {count} 个全局黑名单ID
+   黑名单ID无法被查询或监控`
+    }
+  }
+}
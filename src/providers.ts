@@ -0,0 +1,172 @@
+import * as fs from 'fs'
+import type { Platform } from './index'
+import { ApiError } from './errors'
+
+// 数据源：只负责取得与 Apex Legends Status API 格式相同的原始响应，
+// 解析、缓存、异常读数和错误分类都由插件统一处理，因此换用镜像或模拟数据时行为保持一致
+
+// 玩家查询条件，提供 uid 时按UID查询
+export interface PlayerQuery {
+  platform: Platform
+  player?: string
+  uid?: string
+}
+
+export interface StatsProvider {
+  // 玩家数据，格式与 /bridge 接口相同
+  fetchPlayer(query: PlayerQuery): Promise<any>
+  // 全局数据，endpoint 为 maprotation、crafting、predator 等接口名称
+  fetchData(endpoint: string, params?: Record<string, string>): Promise<any>
+}
+
+// Apex Legends Status API（默认数据源），request 负责限速和重试
+export function createBridgeProvider(baseUrl: string, apiKey: string, request: (url: string, params: Record<string, string>) => Promise<any>): StatsProvider {
+  const base = baseUrl.replace(/\/+$/, '')
+
+  return {
+    fetchPlayer({ platform, player, uid }) {
+      const params: Record<string, string> = { auth: apiKey, platform }
+      if (uid) {
+        params.uid = uid
+      } else {
+        params.player = player
+      }
+      return request(`${base}/bridge`, params)
+    },
+    fetchData(endpoint, params = {}) {
+      return request(`${base}/${endpoint}`, { auth: apiKey, ...params })
+    }
+  }
+}
+
+// 模拟数据的一步：简写字段会转换为 API 格式，也可以直接写完整的 API 响应（包含 global 或 Error）
+interface MockStep {
+  score?: number
+  rank?: string
+  div?: number
+  season?: string
+  percent?: string
+  level?: number
+  online?: boolean
+  legend?: string
+  state?: string
+  legends?: any
+  error?: string // API 以 HTTP 200 返回的错误信息；与 status 同时使用时作为错误响应体
+  status?: number // 模拟 HTTP 错误状态码
+  timeout?: boolean // 模拟请求超时
+  global?: any
+  Error?: string
+}
+
+interface MockPlayer {
+  name?: string // API 返回的名称，默认为键名
+  uid?: string
+  platform?: Platform // 未设置时匹配任意平台
+  season?: string // 各步骤默认的赛季
+  legend?: string // 各步骤默认的英雄
+  loop?: boolean // 播放完后是否从头开始，默认停在最后一步
+  sequence: MockStep[]
+}
+
+// 模拟数据文件，players 以玩家名称为键，其余键为全局数据接口名称
+interface MockScript {
+  players?: Record<string, MockPlayer>
+  [endpoint: string]: any
+}
+
+// 模拟请求失败，结构与 axios 错误相同，插件按同样的规则分类
+function createRequestError(step: MockStep) {
+  if (step.timeout) {
+    return Object.assign(new Error('timeout exceeded'), { isAxiosError: true, code: 'ECONNABORTED' })
+  }
+  return Object.assign(new Error(`Request failed with status code ${step.status}`), {
+    isAxiosError: true,
+    response: { status: step.status, data: step.error ? { Error: step.error } : '', headers: {} }
+  })
+}
+
+// 把一步模拟数据转换为 /bridge 格式的响应
+function buildPlayerResponse(name: string, player: MockPlayer, step: MockStep, platform: Platform) {
+  if (step.timeout || step.status) throw createRequestError(step)
+  if (step.error) return { Error: step.error }
+  if (step.global || step.Error) return step
+
+  const online = !!step.online
+  return {
+    global: {
+      name: player.name || name,
+      uid: player.uid || name,
+      platform,
+      level: step.level ?? 100,
+      rank: {
+        rankScore: step.score ?? 0,
+        rankName: step.rank || 'Unranked',
+        rankDiv: step.div ?? 0,
+        rankedSeason: step.season || player.season,
+        ALStopPercentGlobal: step.percent
+      }
+    },
+    realtime: {
+      isOnline: online ? 1 : 0,
+      selectedLegend: step.legend || player.legend || '',
+      currentStateAsText: step.state || (online ? 'In lobby' : 'Offline')
+    },
+    legends: step.legends || {}
+  }
+}
+
+// 本地模拟数据源：按脚本文件依次返回每个玩家的数据，用于离线测试轮询和通知
+// 每次查询玩家前进一步；文件修改后重新读取并从头开始
+export function createMockProvider(file: string): StatsProvider {
+  let script: MockScript = {}
+  let loadedAt = 0
+  const positions = new Map<string, number>()
+
+  function load() {
+    // 文件缺失属于配置错误，不应被当作 API 服务不可用
+    if (!fs.existsSync(file)) {
+      throw new ApiError(`Mock data file ${file} not found, please check the mockFile setting`)
+    }
+    const mtime = fs.statSync(file).mtimeMs
+    if (mtime === loadedAt) return
+    script = JSON.parse(fs.readFileSync(file, 'utf-8'))
+    loadedAt = mtime
+    positions.clear()
+  }
+
+  function findPlayer({ platform, player, uid }: PlayerQuery): [string, MockPlayer] | undefined {
+    const entries = Object.entries(script.players || {})
+      .filter(([, entry]) => !entry.platform || entry.platform === platform)
+    if (uid) {
+      const found = entries.find(([name, entry]) => (entry.uid || name) === uid)
+      if (found) return found
+    }
+    return entries.find(([name, entry]) => [name, entry.name].some(item => item?.toLowerCase() === player?.toLowerCase()))
+  }
+
+  return {
+    async fetchPlayer(query) {
+      load()
+
+      const found = findPlayer(query)
+      if (!found) {
+        throw createRequestError({ status: 404, error: `Player ${query.player || query.uid} not found` })
+      }
+
+      const [name, player] = found
+      const steps = player.sequence || []
+      if (steps.length === 0) {
+        return { Error: `No mock data for ${name}` }
+      }
+
+      const key = `${query.platform}:${name}`
+      const position = positions.get(key) || 0
+      positions.set(key, player.loop ? (position + 1) % steps.length : Math.min(position + 1, steps.length - 1))
+      return buildPlayerResponse(name, player, steps[position], query.platform)
+    },
+    async fetchData(endpoint) {
+      load()
+      return script[endpoint] ?? { Error: `No mock data for ${endpoint}` }
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import * as fs from 'fs'
+
+// JSON 文件读写：写入时先写临时文件再重命名，保证文件不会只写了一半；
+// 可选保留若干份轮换备份（file.bak.1 为最新），主文件损坏时从备份恢复
+
+// 两次轮换备份的最短间隔，避免频繁写入时几秒内就把所有备份换成相同的内容
+export const BACKUP_INTERVAL = 60 * 60 * 1000
+
+// 轮换备份：file.bak.1 → file.bak.2 → ...，超出数量的最旧备份被覆盖
+// 最新的备份不到 interval 毫秒时不轮换
+function rotateBackups(file: string, backups: number, interval: number) {
+  if (!fs.existsSync(file)) return
+
+  const latest = `${file}.bak.1`
+  if (fs.existsSync(latest) && Date.now() - fs.statSync(latest).mtimeMs < interval) return
+
+  for (let i = backups - 1; i >= 1; i--) {
+    const from = `${file}.bak.${i}`
+    if (fs.existsSync(from)) {
+      fs.renameSync(from, `${file}.bak.${i + 1}`)
+    }
+  }
+  fs.copyFileSync(file, `${file}.bak.1`)
+}
+
+// 原子写入 JSON 文件，backups 为保留的备份数量，interval 为轮换备份的最短间隔（毫秒）
+export function writeJsonFile(file: string, data: any, backups = 0, interval = BACKUP_INTERVAL) {
+  const temp = `${file}.tmp`
+  fs.writeFileSync(temp, JSON.stringify(data), 'utf-8')
+
+  if (backups > 0) {
+    rotateBackups(file, backups, interval)
+  }
+  fs.renameSync(temp, file)
+}
+
+// 读取 JSON 文件，主文件损坏时依次尝试备份
+// 损坏的文件会被改名保留，避免之后的写入覆盖掉仍可能手动恢复的数据
+// 文件不存在时返回 undefined；主文件和备份都无法读取时抛出主文件的错误
+export function readJsonFile<T = any>(file: string, backups = 0, onRecover?: (source: string, error: Error) => void): T | undefined {
+  if (!fs.existsSync(file)) return
+
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'))
+  } catch (error) {
+    fs.renameSync(file, `${file}.corrupt-${Date.now()}`)
+
+    for (let i = 1; i <= backups; i++) {
+      const backup = `${file}.bak.${i}`
+      if (!fs.existsSync(backup)) continue
+      try {
+        const data = JSON.parse(fs.readFileSync(backup, 'utf-8'))
+        onRecover?.(backup, error)
+        fs.copyFileSync(backup, file)
+        return data
+      } catch {}
+    }
+
+    throw error
+  }
+}
@@ -0,0 +1,34 @@
+import * as assert from 'assert/strict'
+import { rankTierNames, renderCompareCardSvg, renderRankChartSvg } from '../src/chart'
+
+describe('renderRankChartSvg', () => {
+  const points = [{ timestamp: 0, score: 5000 }, { timestamp: 3600000, score: 5600 }]
+
+  it('使用调用方提供的标题、分数变化和段位名称', () => {
+    const svg = renderRankChartSvg({
+      title: 'moeneri · 排位分数 · 7 天',
+      change: '5000 → 5600（+600 分）',
+      tiers: { Gold: '黄金' }
+    }, points)
+    assert.match(svg, /moeneri · 排位分数 · 7 天/)
+    assert.match(svg, /5000 → 5600（\+600 分）/)
+    assert.match(svg, />黄金</)
+    assert.doesNotMatch(svg, /Ranked RP|>Gold</)
+  })
+
+  it('没有提供名称的段位使用英文名，文字中的特殊字符被转义', () => {
+    const svg = renderRankChartSvg({ title: '<b>', change: '', tiers: {} }, points)
+    assert.ok(rankTierNames.includes('Gold'))
+    assert.match(svg, />Gold</)
+    assert.match(svg, /&lt;b&gt;/)
+  })
+})
+
+describe('renderCompareCardSvg', () => {
+  it('使用调用方提供的文字', () => {
+    const svg = renderCompareCardSvg(['moeneri', 'hal'], [{ label: '分数', values: ['5000', '6000'], leader: 1 }], { vs: '对决' })
+    assert.match(svg, />对决</)
+    assert.match(svg, />分数</)
+    assert.doesNotMatch(svg, />VS</)
+  })
+})
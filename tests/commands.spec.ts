@@ -0,0 +1,45 @@
+import * as assert from 'assert/strict'
+import { TestApp, createTestApp } from './utils'
+
+describe('命令', () => {
+  let test: TestApp
+
+  afterEach(() => {
+    test?.dispose()
+  })
+
+  const reply = async (content: string) => (await test.receive(content)).join('\n')
+
+  describe('apexcompare', () => {
+    it('其中一名玩家不存在时指出是哪一名', async () => {
+      test = await createTestApp({ players: { moeneri: { sequence: [{ score: 5000 }] } } })
+      assert.match(await reply('apexcompare moeneri nobody'), /找不到玩家 nobody（PC）/)
+    })
+  })
+
+  describe('apexblacklist', () => {
+    // 名称按小写比较，Constructor 会变成 constructor
+    it('constructor、__proto__ 之类的名称按普通名称处理', async () => {
+      test = await createTestApp({ players: { constructor: { sequence: [{ score: 5000 }] } } }, { adminUsers: ['123'] })
+      assert.match(await reply('apexrank Constructor'), /5000/)
+
+      assert.match(await reply('apexblacklist add Constructor'), /已将 Constructor 加入本群黑名单/)
+      assert.match(await reply('apexrank Constructor'), /黑名单/)
+      assert.match(await reply('apexblacklist remove Constructor'), /已将 Constructor 移出本群黑名单/)
+
+      assert.match(await reply('apexblacklist add __PROTO__'), /已将 __PROTO__ 加入本群黑名单/)
+      assert.match(await reply('apexblacklist list'), /__PROTO__/)
+      assert.match(await reply('apexblacklist remove __PROTO__'), /已将 __PROTO__ 移出本群黑名单/)
+    })
+  })
+
+  describe('权限检查', () => {
+    it('只检查本插件的命令，其他插件以 apex 开头的命令不受影响', async () => {
+      test = await createTestApp({})
+      test.app.command('apexother', { authority: 3 }).action(() => 'ok')
+
+      assert.match(await reply('apexrankadmin.status'), /权限不足/)
+      assert.equal(await reply('apexother'), 'ok')
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import * as assert from 'assert/strict'
+import * as fs from 'fs'
+import * as path from 'path'
+import { TestApp, createTestApp } from './utils'
+
+// 等待排队中的数据库写入完成
+const flush = () => new Promise(resolve => setImmediate(resolve))
+
+describe('数据库存储', () => {
+  let test: TestApp
+
+  afterEach(() => {
+    test?.dispose()
+  })
+
+  it('只写入有变化的行，按主键删除已移除的玩家', async () => {
+    const player = { sequence: [{ score: 5000 }] }
+    test = await createTestApp({ players: { alpha: player, bravo: player } }, { adminUsers: ['123'] }, { database: true })
+    await test.receive('apexrankwatch alpha')
+    await test.receive('apexrankwatch bravo')
+    await flush()
+
+    const writes: string[] = []
+    const { database } = test.app
+    const upsert = database.upsert
+    const remove = database.remove
+    database.upsert = (table, rows: any[]) => (writes.push(`upsert ${table} ${rows.length}`), upsert.call(database, table, rows))
+    database.remove = (table, query) => (writes.push(`remove ${table} ${JSON.stringify(query)}`), remove.call(database, table, query))
+
+    await test.receive('apexrankremove alpha')
+    await flush()
+
+    assert.deepEqual(writes, ['remove apex_player {"groupId":"mock:456","playerKey":"PC:alpha"}'])
+    assert.deepEqual((await database.get('apex_player', {})).map(row => row.playerName), ['bravo'])
+  })
+
+  it('重新导入未改名的 history.json 时跳过已导入的记录', async () => {
+    test = await createTestApp({}, {}, { database: true })
+    const entry = { playerId: 'moeneri', playerName: 'moeneri', platform: 'PC', oldScore: 5000, newScore: 5100, rankName: 'Gold', rankDiv: 1 }
+    fs.writeFileSync(path.join(test.dir, 'history.json'), JSON.stringify({
+      moeneri: [{ ...entry, timestamp: Date.now() - 2000 }, { ...entry, timestamp: Date.now() - 1000 }]
+    }))
+    await test.reload()
+    assert.equal((await test.app.database.get('apex_score_history', {})).length, 2)
+
+    // 模拟导入完成但改名前中断
+    fs.renameSync(path.join(test.dir, 'history.json.imported'), path.join(test.dir, 'history.json'))
+    await test.reload()
+    assert.equal((await test.app.database.get('apex_score_history', {})).length, 2)
+    assert.ok(fs.existsSync(path.join(test.dir, 'history.json.imported')))
+  })
+})
@@ -0,0 +1,89 @@
+import * as assert from 'assert/strict'
+import { classifyRankChange, isLikelySeasonReset, parseRetryAfter, shouldNotify } from '../src'
+
+describe('isLikelySeasonReset', () => {
+  it('大幅下降但没有掉到接近 0 分时视为赛季重置', () => {
+    assert.equal(isLikelySeasonReset(8000, 6500), true)
+    assert.equal(isLikelySeasonReset(15000, 1200), true)
+  })
+
+  it('下降不超过 1000 分时不是赛季重置', () => {
+    assert.equal(isLikelySeasonReset(8000, 7000), false)
+    assert.equal(isLikelySeasonReset(8000, 7500), false)
+  })
+
+  it('掉到接近 0 分时视为异常读数而不是赛季重置', () => {
+    assert.equal(isLikelySeasonReset(8000, 0), false)
+    assert.equal(isLikelySeasonReset(8000, 9), false)
+  })
+
+  it('分数上升时不是赛季重置', () => {
+    assert.equal(isLikelySeasonReset(1000, 5000), false)
+  })
+})
+
+describe('classifyRankChange', () => {
+  it('识别段位晋升和降级', () => {
+    assert.equal(classifyRankChange({ rankName: 'Gold', rankDiv: 1 }, { rankName: 'Platinum', rankDiv: 4 }), 'tierUp')
+    assert.equal(classifyRankChange({ rankName: 'Platinum', rankDiv: 4 }, { rankName: 'Gold', rankDiv: 1 }), 'tierDown')
+  })
+
+  it('小段位数字越小越高', () => {
+    assert.equal(classifyRankChange({ rankName: 'Gold', rankDiv: 3 }, { rankName: 'Gold', rankDiv: 2 }), 'divisionUp')
+    assert.equal(classifyRankChange({ rankName: 'Gold', rankDiv: 2 }, { rankName: 'Gold', rankDiv: 3 }), 'divisionDown')
+    assert.equal(classifyRankChange({ rankName: 'Gold', rankDiv: 2 }, { rankName: 'Gold', rankDiv: 2 }), 'none')
+  })
+
+  it('进入和跌出猎杀者优先于段位变化', () => {
+    assert.equal(classifyRankChange({ rankName: 'Master', rankDiv: 0 }, { rankName: 'Apex Predator', rankDiv: 0 }), 'predatorEnter')
+    assert.equal(classifyRankChange({ rankName: 'Apex Predator', rankDiv: 0 }, { rankName: 'Master', rankDiv: 0 }), 'predatorLeave')
+  })
+
+  it('兼容翻译后的名称和 Unranked', () => {
+    assert.equal(classifyRankChange({ rankName: '黄金', rankDiv: 1 }, { rankName: '白金', rankDiv: 4 }), 'tierUp')
+    assert.equal(classifyRankChange({ rankName: 'Unranked', rankDiv: 0 }, { rankName: 'Rookie', rankDiv: 4 }), 'none')
+  })
+
+  it('未知段位不产生事件', () => {
+    assert.equal(classifyRankChange({ rankName: 'Gold', rankDiv: 1 }, { rankName: 'Mystery', rankDiv: 1 }), 'none')
+  })
+})
+
+describe('shouldNotify', () => {
+  it('段位和猎杀者变化总会通知', () => {
+    for (const event of ['tierUp', 'tierDown', 'predatorEnter', 'predatorLeave'] as const) {
+      assert.equal(shouldNotify({ notifyFilter: 'tier', minDiff: 1000 }, event, 0), true)
+    }
+  })
+
+  it('小段变化在 tier 规则下不通知', () => {
+    assert.equal(shouldNotify({ notifyFilter: 'division' }, 'divisionUp', 10), true)
+    assert.equal(shouldNotify({ notifyFilter: 'tier' }, 'divisionUp', 10), false)
+  })
+
+  it('普通分数变化只在 all 规则下按最小幅度通知', () => {
+    assert.equal(shouldNotify({}, 'none', 5), true)
+    assert.equal(shouldNotify({ minDiff: 50 }, 'none', -49), false)
+    assert.equal(shouldNotify({ minDiff: 50 }, 'none', -50), true)
+    assert.equal(shouldNotify({ notifyFilter: 'division' }, 'none', 500), false)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('解析秒数', () => {
+    assert.equal(parseRetryAfter('3'), 3000)
+    assert.equal(parseRetryAfter('0'), 0)
+  })
+
+  it('解析 HTTP 日期', () => {
+    const ms = parseRetryAfter(new Date(Date.now() + 10000).toUTCString())
+    assert.ok(ms > 8000 && ms <= 10000)
+    assert.equal(parseRetryAfter(new Date(Date.now() - 10000).toUTCString()), 0)
+  })
+
+  it('无法解析时返回 null', () => {
+    assert.equal(parseRetryAfter(undefined), null)
+    assert.equal(parseRetryAfter(''), null)
+    assert.equal(parseRetryAfter('soon'), null)
+  })
+})
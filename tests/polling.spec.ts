@@ -0,0 +1,103 @@
+import * as assert from 'assert/strict'
+import { TestApp, createTestApp } from './utils'
+
+// 每次读数比上一次高 20 分，每次检测都会产生一条通知
+const climbing = () => ({ sequence: Array.from({ length: 10 }, (_, i) => ({ score: 5000 + 20 * i })) })
+
+// 用模拟数据源完整运行插件：在群内添加监控，之后每轮检测播放 sequence 的下一步
+// 第一步在添加监控时使用，作为分数基准
+describe('轮询与通知', () => {
+  let test: TestApp
+
+  async function watch(player: Record<string, any>) {
+    test = await createTestApp({ players: { moeneri: player } })
+    assert.match((await test.receive('apexrankwatch moeneri')).join('\n'), /成功添加/)
+  }
+
+  // 分数变化通知
+  const notifications = () => test.sent.filter(message => message.includes('📈 Apex 排位分数变化'))
+
+  // 播放完脚本后再多检测几轮，确认不会重复通知
+  async function settle(steps: number) {
+    await test.tick(steps + 3)
+  }
+
+  afterEach(() => {
+    test?.dispose()
+  })
+
+  it('偶发的 0 分读数不通知，之后的正常变化只通知一次', async () => {
+    await watch({ sequence: [{ score: 5000 }, { score: 0 }, { score: 5000 }, { score: 5100 }] })
+    await settle(3)
+
+    assert.equal(notifications().length, 1)
+    assert.match(notifications()[0], /原分数：5000/)
+    assert.match(notifications()[0], /当前分数：5100/)
+  })
+
+  it('可疑的大幅变化经下一次检测确认后只通知一次', async () => {
+    await watch({ sequence: [{ score: 5000 }, { score: 7000 }] })
+    await settle(1)
+
+    assert.equal(notifications().length, 1)
+    assert.match(notifications()[0], /原分数：5000/)
+    assert.match(notifications()[0], /当前分数：7000/)
+  })
+
+  it('可疑读数未被确认时不通知', async () => {
+    await watch({ loop: true, sequence: [{ score: 5000 }, { score: 7000 }] })
+    await settle(6)
+
+    assert.equal(notifications().length, 0)
+  })
+
+  it('API 错误和缺少段位数据的读数总是被忽略', async () => {
+    await watch({
+      sequence: [
+        { score: 5000 },
+        { error: 'Unexpected response' },
+        { error: 'Unexpected response' },
+        { global: { name: 'moeneri', uid: 'moeneri' } },
+        { score: 5040 }
+      ]
+    })
+    await settle(4)
+
+    assert.equal(notifications().length, 1)
+    assert.match(notifications()[0], /当前分数：5040/)
+  })
+
+  it('缺少赛季信息时，确认后的大幅下降按赛季重置提示', async () => {
+    await watch({ sequence: [{ score: 8000 }, { score: 6500 }] })
+    await settle(1)
+
+    assert.equal(notifications().length, 1)
+    assert.match(notifications()[0], /可能是赛季重置/)
+  })
+
+  it('赛季变化时以新赛季分数为基准，不按分数变化通知', async () => {
+    await watch({
+      season: 'season22_split_1',
+      sequence: [{ score: 8000 }, { score: 1200, season: 'season22_split_2' }, { score: 1250, season: 'season22_split_2' }]
+    })
+    await settle(2)
+
+    assert.equal(notifications().length, 1)
+    assert.match(notifications()[0], /原分数：1200/)
+    assert.match(notifications()[0], /当前分数：1250/)
+  })
+
+  it('每名玩家每轮都被检测一次', async () => {
+    const names = ['alpha', 'bravo', 'charlie', 'delta', 'echo']
+    test = await createTestApp({ players: Object.fromEntries(names.map(name => [name, climbing()])) }, { rateLimit: 100 })
+    for (const name of names) {
+      assert.match((await test.receive(`apexrankwatch ${name}`)).join('\n'), /成功添加/)
+    }
+    // 第 4 轮的检测分散在整轮内，推进到该轮快结束、第 5 轮还没开始的时候
+    await test.tick(4.9)
+
+    for (const name of names) {
+      assert.equal(notifications().filter(message => message.includes(name)).length, 4, name)
+    }
+  })
+})
@@ -0,0 +1,77 @@
+import * as assert from 'assert/strict'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { createMockProvider } from '../src/providers'
+import { ApiError, PlayerNotFoundError, UpstreamUnavailableError, toApiError } from '../src/errors'
+
+describe('createMockProvider', () => {
+  let dir: string
+  let file: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'apexrankwatch-'))
+    file = path.join(dir, 'mock.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  function writeScript(script: any) {
+    fs.writeFileSync(file, JSON.stringify(script))
+  }
+
+  it('按顺序播放并停在最后一步', async () => {
+    writeScript({ players: { moeneri: { season: 'season22_split_1', sequence: [{ score: 5000 }, { score: 5100 }] } } })
+    const provider = createMockProvider(file)
+
+    const scores = []
+    for (let i = 0; i < 3; i++) {
+      const data = await provider.fetchPlayer({ platform: 'PC', player: 'MoeNeri' })
+      scores.push(data.global.rank.rankScore)
+      assert.equal(data.global.rank.rankedSeason, 'season22_split_1')
+    }
+    assert.deepEqual(scores, [5000, 5100, 5100])
+  })
+
+  it('loop 为 true 时从头开始，不同平台分别计数', async () => {
+    writeScript({ players: { moeneri: { loop: true, sequence: [{ score: 1 }, { score: 2 }] } } })
+    const provider = createMockProvider(file)
+
+    const pc = []
+    for (let i = 0; i < 3; i++) pc.push((await provider.fetchPlayer({ platform: 'PC', player: 'moeneri' })).global.rank.rankScore)
+    const ps4 = (await provider.fetchPlayer({ platform: 'PS4', player: 'moeneri' })).global.rank.rankScore
+    assert.deepEqual(pc, [1, 2, 1])
+    assert.equal(ps4, 1)
+  })
+
+  it('按UID查询', async () => {
+    writeScript({ players: { moeneri: { name: 'NewName', uid: '1001', sequence: [{ score: 1 }] } } })
+    const data = await createMockProvider(file).fetchPlayer({ platform: 'PC', uid: '1001' })
+    assert.equal(data.global.name, 'NewName')
+  })
+
+  it('模拟的错误与真实请求按同样的规则分类', async () => {
+    writeScript({ players: { moeneri: { sequence: [{ status: 503 }, { error: 'Player moeneri not found' }] } } })
+    const provider = createMockProvider(file)
+
+    await assert.rejects(provider.fetchPlayer({ platform: 'PC', player: 'moeneri' }).catch(error => { throw toApiError(error) }), UpstreamUnavailableError)
+    assert.deepEqual(await provider.fetchPlayer({ platform: 'PC', player: 'moeneri' }), { Error: 'Player moeneri not found' })
+    await assert.rejects(provider.fetchPlayer({ platform: 'PC', player: 'nobody' }).catch(error => { throw toApiError(error) }), PlayerNotFoundError)
+  })
+
+  it('全局数据', async () => {
+    writeScript({ predator: { RP: { PC: { val: 15000 } } } })
+    const provider = createMockProvider(file)
+    assert.deepEqual(await provider.fetchData('predator'), { RP: { PC: { val: 15000 } } })
+    assert.deepEqual(await provider.fetchData('crafting'), { Error: 'No mock data for crafting' })
+  })
+
+  it('文件不存在时给出配置错误而不是服务不可用', async () => {
+    const provider = createMockProvider(file)
+    const error = await provider.fetchPlayer({ platform: 'PC', player: 'moeneri' }).catch(toApiError)
+    assert.equal(error.constructor, ApiError)
+    assert.match(error.message, /mockFile/)
+  })
+})
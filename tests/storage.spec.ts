@@ -0,0 +1,59 @@
+import * as assert from 'assert/strict'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { readJsonFile, writeJsonFile } from '../src/storage'
+
+describe('storage', () => {
+  let dir: string
+  let file: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'apexrankwatch-'))
+    file = path.join(dir, 'data.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('文件不存在时返回 undefined', () => {
+    assert.equal(readJsonFile(file), undefined)
+  })
+
+  it('写入后可以读回，且不留下临时文件', () => {
+    writeJsonFile(file, { a: 1 })
+    assert.deepEqual(readJsonFile(file), { a: 1 })
+    assert.equal(fs.existsSync(`${file}.tmp`), false)
+  })
+
+  it('按间隔轮换备份', () => {
+    writeJsonFile(file, { version: 1 }, 2, -1)
+    writeJsonFile(file, { version: 2 }, 2, -1)
+    writeJsonFile(file, { version: 3 }, 2, -1)
+    assert.deepEqual(readJsonFile(`${file}.bak.1`), { version: 2 })
+    assert.deepEqual(readJsonFile(`${file}.bak.2`), { version: 1 })
+
+    // 最新备份还未超过间隔时不轮换
+    writeJsonFile(file, { version: 4 }, 2)
+    assert.deepEqual(readJsonFile(file), { version: 4 })
+    assert.deepEqual(readJsonFile(`${file}.bak.1`), { version: 2 })
+  })
+
+  it('主文件损坏时从备份恢复并保留损坏的文件', () => {
+    writeJsonFile(file, { version: 1 }, 1, -1)
+    writeJsonFile(file, { version: 2 }, 1, -1)
+    fs.writeFileSync(file, '{"version":')
+
+    const recovered: string[] = []
+    assert.deepEqual(readJsonFile(file, 1, source => recovered.push(source)), { version: 1 })
+    assert.deepEqual(recovered, [`${file}.bak.1`])
+    assert.deepEqual(readJsonFile(file), { version: 1 })
+    assert.equal(fs.readdirSync(dir).filter(name => name.startsWith('data.json.corrupt-')).length, 1)
+  })
+
+  it('没有可用的备份时抛出主文件的错误', () => {
+    fs.writeFileSync(file, 'not json')
+    assert.throws(() => readJsonFile(file, 2), SyntaxError)
+  })
+})
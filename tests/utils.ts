@@ -0,0 +1,95 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import * as FakeTimers from '@sinonjs/fake-timers'
+import { App } from 'koishi'
+import mock from '@koishijs/plugin-mock'
+import memory from '@koishijs/plugin-database-memory'
+import * as apexrankwatch from '../src'
+
+// 用模拟数据源完整运行插件的测试环境
+// 计时器和 Date 使用假时钟，轮询按 tick 的时间推进，不依赖真实的等待时间
+export interface TestApp {
+  app: App
+  // 数据目录
+  dir: string
+  clock: FakeTimers.InstalledClock
+  // 插件主动发送的消息（通知），命令的回复不在其中
+  sent: string[]
+  // 推进若干轮轮询
+  tick(cycles?: number): Promise<void>
+  // 以用户 123 的身份在群 456 中发送消息，返回回复
+  receive(content: string): Promise<string[]>
+  // 以同样的配置重新加载插件，用于检查重启后的行为
+  reload(): Promise<void>
+  dispose(): void
+}
+
+export const cycleMs = 2 * 60 * 1000
+
+// 等待插件加载数据（包括切换到数据库存储）完成
+const settle = () => new Promise(resolve => setImmediate(resolve))
+
+export interface TestOptions {
+  // 启用内存数据库
+  database?: boolean
+}
+
+export async function createTestApp(script: any, config: Partial<apexrankwatch.Config> = {}, options: TestOptions = {}): Promise<TestApp> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'apexrankwatch-'))
+  fs.writeFileSync(path.join(dir, 'mock.json'), JSON.stringify(script))
+
+  const clock = FakeTimers.install({
+    now: new Date('2025-01-06T12:00:00').getTime(),
+    toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date']
+  })
+
+  const app = new App()
+  app.plugin(mock)
+  if (options.database) app.plugin(memory)
+  const pluginConfig = {
+    provider: 'mock',
+    dataDir: dir,
+    checkInterval: cycleMs / 60000,
+    adaptivePolling: false,
+    cacheTTL: 0,
+    ...config
+  }
+  let fork = app.plugin(apexrankwatch, pluginConfig)
+  await app.start()
+  await settle()
+
+  const sent: string[] = []
+  const bot = app.mock.bots[0]
+  const sendMessage = bot.sendMessage
+  bot.sendMessage = async (channelId, content, referrer, options) => {
+    if (options?.session) return sendMessage.call(bot, channelId, content, referrer, options)
+    sent.push(String(content))
+    return []
+  }
+
+  const client = app.mock.client('123', '456')
+
+  return {
+    app,
+    dir,
+    clock,
+    sent,
+    async tick(cycles = 1) {
+      await clock.tickAsync(cycleMs * cycles)
+    },
+    receive(content) {
+      return client.receive(content)
+    },
+    async reload() {
+      fork.dispose()
+      fork = app.plugin(apexrankwatch, pluginConfig)
+      await settle()
+    },
+    dispose() {
+      fork.dispose()
+      clock.uninstall()
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  }
+}